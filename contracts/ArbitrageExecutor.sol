@@ -0,0 +1,255 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// transfer/approve go through _safeTransfer/_safeApprove, tokens like USDT return nothing
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+}
+
+interface IUniswapV2Pair {
+    function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast);
+    function swap(uint256 amount0Out, uint256 amount1Out, address to, bytes calldata data) external;
+}
+
+interface ISolidlyPool {
+    function getAmountOut(uint256 amountIn, address tokenIn) external view returns (uint256);
+    function swap(uint256 amount0Out, uint256 amount1Out, address to, bytes calldata data) external;
+}
+
+interface IUniswapV3Pool {
+    function swap(address recipient, bool zeroForOne, int256 amountSpecified, uint160 sqrtPriceLimitX96, bytes calldata data)
+        external returns (int256 amount0, int256 amount1);
+}
+
+/**
+ * Flash loan receiver that runs an arbitrage route and repays the lender in the same transaction.
+ *
+ * The owner starts every loan through initiateFlash(lender, call), which unlocks the callback of
+ * that one lender: Aave executeOperation, Balancer receiveFlashLoan, Uniswap V3 flash and V2 flash
+ * swaps. The route travels as the loan's params/userData, ABI-encoded as a Route. Each step swaps
+ * the previous step's whole output, starting from the borrowed amount; whatever is left after
+ * repayment is profit, which stays in the contract until the owner withdraws it.
+ */
+contract ArbitrageExecutor {
+    uint8 internal constant UNISWAP_V2 = 0; // data: abi.encode(uint256 feeBps)
+    uint8 internal constant UNISWAP_V3 = 1;
+    uint8 internal constant SOLIDLY = 2;
+    uint8 internal constant CURVE = 3; // data: abi.encode(int128 i, int128 j, bool underlying, bool crypto)
+    uint8 internal constant BALANCER = 4; // pool: the Vault, data: batchSwap calldata
+
+    uint160 internal constant MIN_SQRT_RATIO = 4295128739;
+    uint160 internal constant MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342;
+
+    struct SwapStep {
+        uint8 dexType;
+        address pool;
+        address tokenIn;
+        address tokenOut;
+        bool zeroForOne; // Pool direction, token0 -> token1
+        uint256 minAmountOut;
+        bytes data;
+    }
+
+    struct Route {
+        address asset; // Borrowed, and what the route must end in
+        uint256 amount;
+        uint256 minProfit; // Left after repayment, in the asset's raw units
+        SwapStep[] steps;
+    }
+
+    address public immutable owner;
+
+    address private activeLender; // Set for the duration of initiateFlash
+    address private activePool; // V3 pool whose swap callback is expected
+    uint256 private lastProfit;
+
+    event ArbitrageExecuted(address indexed asset, uint256 amount, uint256 fee, uint256 profit);
+    event SwapExecuted(uint8 dexType, address indexed pool, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut);
+    event ProfitWithdrawn(address indexed token, address indexed to, uint256 amount);
+
+    error NotOwner();
+    error UnexpectedCallback(address caller);
+    error InsufficientOutput(uint256 step, uint256 amountOut, uint256 minAmountOut);
+    error InsufficientProfit(uint256 amountOut, uint256 owed, uint256 minProfit);
+    error UnsupportedDex(uint8 dexType);
+    error CallFailed(address target, bytes reason);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    /**
+     * Call the lender with `flashCall` (flashLoanSimple, flashLoan, flash or swap) and accept its
+     * callback. Returns the profit the route left after repaying the loan.
+     */
+    function initiateFlash(address lender, bytes calldata flashCall) external onlyOwner returns (uint256 profit) {
+        activeLender = lender;
+        (bool ok, bytes memory reason) = lender.call(flashCall);
+        activeLender = address(0);
+        if (!ok) _bubble(lender, reason);
+
+        profit = lastProfit;
+        lastProfit = 0;
+    }
+
+    // Aave V3 Pool.flashLoanSimple, repaid by the pool pulling amount + premium
+    function executeOperation(address asset, uint256 amount, uint256 premium, address initiator, bytes calldata params)
+        external returns (bool)
+    {
+        if (msg.sender != activeLender || initiator != address(this)) revert UnexpectedCallback(msg.sender);
+        _execute(params, asset, amount, premium);
+        _safeApprove(asset, msg.sender, amount + premium);
+        return true;
+    }
+
+    // Balancer V2 Vault.flashLoan, repaid by transfer before the Vault checks its balances
+    function receiveFlashLoan(IERC20[] calldata tokens, uint256[] calldata amounts, uint256[] calldata feeAmounts, bytes calldata userData)
+        external
+    {
+        if (msg.sender != activeLender) revert UnexpectedCallback(msg.sender);
+        _execute(userData, address(tokens[0]), amounts[0], feeAmounts[0]);
+        _safeTransfer(address(tokens[0]), msg.sender, amounts[0] + feeAmounts[0]);
+    }
+
+    // Uniswap V3 pool.flash(), one side is the borrowed asset
+    function uniswapV3FlashCallback(uint256 fee0, uint256 fee1, bytes calldata data) external {
+        if (msg.sender != activeLender) revert UnexpectedCallback(msg.sender);
+        Route memory route = abi.decode(data, (Route));
+        uint256 fee = fee0 > 0 ? fee0 : fee1;
+        _execute(data, route.asset, route.amount, fee);
+        _safeTransfer(route.asset, msg.sender, route.amount + fee);
+    }
+
+    // Uniswap V2 flash swap, repaid in the borrowed token at amount / 0.997 before k is checked
+    function uniswapV2Call(address sender, uint256 amount0, uint256 amount1, bytes calldata data) external {
+        if (msg.sender != activeLender || sender != address(this)) revert UnexpectedCallback(msg.sender);
+        uint256 amount = amount0 > 0 ? amount0 : amount1;
+        uint256 repayment = (amount * 1000) / 997 + 1;
+        Route memory route = abi.decode(data, (Route));
+        _execute(data, route.asset, amount, repayment - amount);
+        _safeTransfer(route.asset, msg.sender, repayment);
+    }
+
+    // Pays a V3 swap step: the pool has already sent the output
+    function uniswapV3SwapCallback(int256 amount0Delta, int256 amount1Delta, bytes calldata data) external {
+        if (msg.sender != activePool) revert UnexpectedCallback(msg.sender);
+        address tokenIn = abi.decode(data, (address));
+        uint256 owed = uint256(amount0Delta > 0 ? amount0Delta : amount1Delta);
+        _safeTransfer(tokenIn, msg.sender, owed);
+    }
+
+    function withdraw(address token, uint256 amount, address to) external onlyOwner {
+        _safeTransfer(token, to, amount);
+        emit ProfitWithdrawn(token, to, amount);
+    }
+
+    function _execute(bytes calldata params, address asset, uint256 amount, uint256 fee) internal {
+        Route memory route = abi.decode(params, (Route));
+        uint256 amountIn = amount;
+
+        for (uint256 i = 0; i < route.steps.length; i++) {
+            SwapStep memory step = route.steps[i];
+            uint256 amountOut = _swap(step, amountIn);
+            if (amountOut < step.minAmountOut) revert InsufficientOutput(i, amountOut, step.minAmountOut);
+            emit SwapExecuted(step.dexType, step.pool, step.tokenIn, step.tokenOut, amountIn, amountOut);
+            amountIn = amountOut;
+        }
+
+        uint256 owed = amount + fee;
+        if (amountIn < owed + route.minProfit) revert InsufficientProfit(amountIn, owed, route.minProfit);
+
+        lastProfit = amountIn - owed;
+        emit ArbitrageExecuted(asset, amount, fee, lastProfit);
+    }
+
+    // Output is measured as the contract's balance change, the same for every pool type
+    function _swap(SwapStep memory step, uint256 amountIn) internal returns (uint256) {
+        uint256 balanceBefore = IERC20(step.tokenOut).balanceOf(address(this));
+
+        if (step.dexType == UNISWAP_V2 || step.dexType == SOLIDLY) {
+            uint256 amountOut;
+            if (step.dexType == UNISWAP_V2) {
+                uint256 feeBps = abi.decode(step.data, (uint256));
+                (uint112 reserve0, uint112 reserve1,) = IUniswapV2Pair(step.pool).getReserves();
+                (uint256 reserveIn, uint256 reserveOut) = step.zeroForOne ? (reserve0, reserve1) : (reserve1, reserve0);
+                uint256 amountInWithFee = amountIn * (10_000 - feeBps);
+                amountOut = (amountInWithFee * reserveOut) / (reserveIn * 10_000 + amountInWithFee);
+            } else {
+                amountOut = ISolidlyPool(step.pool).getAmountOut(amountIn, step.tokenIn);
+            }
+            _safeTransfer(step.tokenIn, step.pool, amountIn);
+            (uint256 amount0Out, uint256 amount1Out) = step.zeroForOne ? (uint256(0), amountOut) : (amountOut, uint256(0));
+            IUniswapV2Pair(step.pool).swap(amount0Out, amount1Out, address(this), "");
+        } else if (step.dexType == UNISWAP_V3) {
+            activePool = step.pool;
+            IUniswapV3Pool(step.pool).swap(
+                address(this),
+                step.zeroForOne,
+                int256(amountIn),
+                step.zeroForOne ? MIN_SQRT_RATIO + 1 : MAX_SQRT_RATIO - 1,
+                abi.encode(step.tokenIn)
+            );
+            activePool = address(0);
+        } else if (step.dexType == CURVE) {
+            (int128 i, int128 j, bool underlying, bool crypto) = abi.decode(step.data, (int128, int128, bool, bool));
+            string memory method = underlying ? "exchange_underlying" : "exchange";
+            bytes memory call = crypto
+                ? abi.encodeWithSignature(string.concat(method, "(uint256,uint256,uint256,uint256)"), uint256(int256(i)), uint256(int256(j)), amountIn, step.minAmountOut)
+                : abi.encodeWithSignature(string.concat(method, "(int128,int128,uint256,uint256)"), i, j, amountIn, step.minAmountOut);
+            _safeApprove(step.tokenIn, step.pool, amountIn);
+            _call(step.pool, call);
+        } else if (step.dexType == BALANCER) {
+            // The batch swap was built for the quoted input, its limits cap what the Vault may pull
+            _safeApprove(step.tokenIn, step.pool, amountIn);
+            _call(step.pool, step.data);
+        } else {
+            revert UnsupportedDex(step.dexType);
+        }
+
+        return IERC20(step.tokenOut).balanceOf(address(this)) - balanceBefore;
+    }
+
+    function _safeTransfer(address token, address to, uint256 amount) internal {
+        _tokenCall(token, abi.encodeWithSelector(0xa9059cbb, to, amount)); // transfer(address,uint256)
+    }
+
+    // Tokens like USDT refuse to change a non-zero allowance, so a refused approve is retried from 0
+    function _safeApprove(address token, address spender, uint256 amount) internal {
+        bytes memory approve = abi.encodeWithSelector(0x095ea7b3, spender, amount); // approve(address,uint256)
+        if (!_tryTokenCall(token, approve)) {
+            _tokenCall(token, abi.encodeWithSelector(0x095ea7b3, spender, uint256(0)));
+            _tokenCall(token, approve);
+        }
+    }
+
+    // Succeeds when the token didn't revert and returned nothing or true
+    function _tokenCall(address token, bytes memory data) internal {
+        (bool ok, bytes memory result) = token.call(data);
+        if (!ok || (result.length > 0 && !abi.decode(result, (bool))) || (result.length == 0 && token.code.length == 0)) {
+            revert CallFailed(token, result);
+        }
+    }
+
+    function _tryTokenCall(address token, bytes memory data) internal returns (bool) {
+        (bool ok, bytes memory result) = token.call(data);
+        return ok && (result.length == 0 ? token.code.length > 0 : abi.decode(result, (bool)));
+    }
+
+    function _call(address target, bytes memory data) internal {
+        (bool ok, bytes memory reason) = target.call(data);
+        if (!ok) _bubble(target, reason);
+    }
+
+    // Re-raise a failed call's revert, wrapped when it carried no data
+    function _bubble(address target, bytes memory reason) internal pure {
+        if (reason.length == 0) revert CallFailed(target, reason);
+        assembly {
+            revert(add(reason, 32), mload(reason))
+        }
+    }
+}
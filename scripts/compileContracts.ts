@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+
+// solc ships without types
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const solc = require('solc');
+
+export interface CompiledContract {
+  abi: any[];
+  bytecode: string;
+}
+
+const CONTRACTS_DIR = path.join(__dirname, '..', 'contracts');
+const BUILD_DIR = path.join(__dirname, '..', 'build', 'contracts');
+
+/**
+ * Compiles every contract in `directories` (contracts/ by default) with the solc-js version
+ * pinned in package.json. Targets Shanghai, the newest fork the in-process test EVM runs.
+ * Contracts without bytecode, interfaces, are left out.
+ */
+export function compileContracts(directories: string[] = [CONTRACTS_DIR]): Record<string, CompiledContract> {
+  const sources: Record<string, { content: string }> = {};
+  for (const directory of directories) {
+    for (const file of readdirSync(directory).filter(name => name.endsWith('.sol'))) {
+      sources[path.relative(path.join(__dirname, '..'), path.join(directory, file))] = { content: readFileSync(path.join(directory, file), 'utf8') };
+    }
+  }
+
+  const output = JSON.parse(solc.compile(JSON.stringify({
+    language: 'Solidity',
+    sources,
+    settings: {
+      evmVersion: 'shanghai',
+      optimizer: { enabled: true, runs: 200 },
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } }
+    }
+  })));
+
+  const errors = (output.errors || []).filter((error: any) => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Compilation failed:\n${errors.map((error: any) => error.formattedMessage).join('\n')}`);
+  }
+
+  const contracts: Record<string, CompiledContract> = {};
+  for (const file of Object.keys(output.contracts)) {
+    for (const [name, contract] of Object.entries<any>(output.contracts[file])) {
+      if (contract.evm.bytecode.object) contracts[name] = { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+    }
+  }
+  return contracts;
+}
+
+if (require.main === module) {
+  mkdirSync(BUILD_DIR, { recursive: true });
+  for (const [name, contract] of Object.entries(compileContracts())) {
+    writeFileSync(path.join(BUILD_DIR, `${name}.json`), JSON.stringify(contract, null, 2));
+    console.log(`Compiled ${name} -> build/contracts/${name}.json`);
+  }
+}
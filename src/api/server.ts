@@ -10,6 +10,7 @@ import { FlashLoanExecutor } from '../core/FlashLoanExecutor';
 import { PriceMonitor } from '../core/PriceMonitor';
 import { AutoTrader } from '../core/AutoTrader';
 import { NETWORK_CONFIG } from '../config/constants';
+import { createSignerProvider } from '../signers/SignerProvider';
 import { DemoDataProvider } from '../demo/DemoDataProvider';
 import { APIService } from '../services/APIService';
 import { FlashLoanProviderService } from '../services/FlashLoanProviderService';
@@ -95,7 +96,7 @@ export class APIServer {
       this.provider = new ethers.JsonRpcProvider(NETWORK_CONFIG.ETHEREUM.rpcUrl);
       
       // Check if we should run in demo mode vs live API mode
-      const privateKey = process.env.PRIVATE_KEY;
+      const signerProvider = createSignerProvider();
       const alchemyApiKey = process.env.ALCHEMY_API_KEY;
       
       this.isDemoMode = false; // Force production mode for advanced UI
@@ -119,12 +120,13 @@ export class APIServer {
         this.apiService = new APIService();
         await this.apiService.start();
         
-        if (privateKey) {
+        if (signerProvider) {
           // Full live trading mode
-          logger.info('💰 Trading enabled with private key');
+          const signer = await signerProvider.getSigner(this.provider);
+          logger.info(`💰 Trading enabled with ${signerProvider.describe()}`);
           this.opportunityFinder = new OpportunityFinder(this.provider);
           this.priceMonitor = new PriceMonitor();
-          this.flashLoanExecutor = new FlashLoanExecutor(this.provider, privateKey);
+          this.flashLoanExecutor = new FlashLoanExecutor(this.provider, signer);
           
           this.autoTrader = new AutoTrader(
             this.opportunityFinder,
@@ -132,7 +134,7 @@ export class APIServer {
             this.priceMonitor
           );
         } else {
-          logger.info('📊 API-only mode (no trading without PRIVATE_KEY)');
+          logger.info('📊 API-only mode (no trading without a signer, see SIGNER_TYPE)');
         }
       }
       
@@ -174,6 +176,33 @@ export class APIServer {
       }
     });
 
+    // Server-sent events pushed as the finder detects, updates and drops opportunities
+    this.app.get('/api/opportunities/stream', async (req, res) => {
+      if (!this.opportunityFinder) {
+        res.status(503).json({ error: 'Opportunity stream is only available in live mode' });
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      });
+
+      const stream = this.opportunityFinder.subscribe({ bufferSize: 50 });
+      req.on('close', () => stream.close());
+
+      try {
+        for await (const event of stream) {
+          res.write(`event: ${event.type}\ndata: ${JSON.stringify({ ...event.opportunity, reason: event.reason })}\n\n`);
+        }
+      } catch (error) {
+        logger.error('Error streaming opportunities:', error);
+      } finally {
+        res.end();
+      }
+    });
+
     this.app.get('/api/prices', (req, res) => {
       try {
         const prices = this.isDemoMode
@@ -235,8 +264,12 @@ export class APIServer {
           res.json({
             trading: stats,
             risk: riskStats,
+            recentTrades: this.autoTrader?.getTradeHistory(20) || [],
+            recentTransactions: this.autoTrader?.getTransactions(20) || [],
+            recentBundles: this.autoTrader?.getBundles(20) || [],
             walletBalance: balance,
             priceMonitor: this.priceMonitor?.getStats() || {},
+            multicall: this.opportunityFinder?.getMulticallStats() || {},
             mode: 'live'
           });
         }
@@ -1268,6 +1301,7 @@ export class APIServer {
         endpoints: [
           'GET /health - Health check',
           'GET /api/opportunities - Current arbitrage opportunities',
+          'GET /api/opportunities/stream - Opportunity events (server-sent events)',
           'GET /api/prices - Current token prices',
           'GET /api/stats - Trading statistics',
           'POST /api/start - Start auto trading',
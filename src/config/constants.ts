@@ -73,7 +73,7 @@ export const NETWORK_CONFIG = {
   // Emerging High-Potential Networks
   UNICHAIN: {
     name: 'Unichain',
-    chainId: 1301,
+    chainId: 130,
     rpcUrl: process.env.RPC_URL_UNICHAIN || 'https://unichain-mainnet.g.alchemy.com/v2/' + (process.env.ALCHEMY_API_KEY || 'demo'),
     blockTime: 1000, // 1 second
     gasLimit: 1000000,
@@ -93,6 +93,16 @@ export const NETWORK_CONFIG = {
   }
 };
 
+export type NetworkName = keyof typeof NETWORK_CONFIG;
+
+// Deployed contracts/ArbitrageExecutor.sol per chain, ARBITRAGE_EXECUTOR_<NETWORK> (e.g. ARBITRAGE_EXECUTOR_BASE).
+// It receives every flash loan, so chains without one can't execute.
+export const ARBITRAGE_EXECUTOR_ADDRESSES: { [network in NetworkName]?: string } = Object.fromEntries(
+  (Object.keys(NETWORK_CONFIG) as NetworkName[])
+    .map(network => [network, process.env[`ARBITRAGE_EXECUTOR_${network}`] || ''])
+    .filter(([, address]) => address !== '')
+);
+
 export const DEX_CONFIG = {
   UNISWAP_V2: {
     name: 'Uniswap V2',
@@ -104,6 +114,7 @@ export const DEX_CONFIG = {
     name: 'Uniswap V3',
     router: '0xE592427A0AEce92De3Edee1F18E0157C05861564',
     factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+    quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e', // QuoterV2
     fees: [0.0005, 0.003, 0.01], // 0.05%, 0.3%, 1%
   },
   SUSHISWAP: {
@@ -120,39 +131,403 @@ export const DEX_CONFIG = {
   }
 };
 
+// networks: chains the addresses below are valid on. gasOverhead: borrowing and repayment in the
+// lender itself; callbackGas: what the receiver spends in the provider's callback beyond the swaps
 export const FLASH_LOAN_PROVIDERS = {
   AAVE: {
     name: 'AAVE',
     poolAddress: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
-    fee: 0.0009, // 0.09%
+    fee: 0.0009, // 0.09%, FLASHLOAN_PREMIUM_TOTAL is read on-chain when available
+    networks: ['ETHEREUM'] as NetworkName[],
+    gasOverhead: 85_000,
+    callbackGas: 35_000, // Approve, then the pool pulls the repayment
   },
   BALANCER: {
     name: 'Balancer',
     vaultAddress: '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
-    fee: 0.0005, // 0.05%
+    receiverAddress: process.env.BALANCER_RECEIVER_ADDRESS || '', // IFlashLoanRecipient contract the Vault calls back
+    fee: 0.0005, // 0.05%, the ProtocolFeesCollector's flash loan fee is read on-chain when available
+    networks: ['ETHEREUM', 'POLYGON', 'ARBITRUM', 'BASE', 'OPTIMISM'] as NetworkName[],
+    gasOverhead: 50_000,
+    callbackGas: 25_000, // Transfer the repayment back to the Vault
   },
   DYDX: {
     name: 'dYdX',
     soloAddress: '0x1E0447b19BB6EcFdAe1e4AE1694b0C3659614e4e',
     fee: 0, // No fee
+    networks: ['ETHEREUM'] as NetworkName[],
+    gasOverhead: 150_000, // operate() with withdraw, call and deposit actions
+    callbackGas: 40_000,
+  },
+  // Flash swaps: the lending pool pairs the asset with a token the route doesn't trade
+  UNISWAP_V3: {
+    name: 'Uniswap V3 Flash',
+    factory: DEX_CONFIG.UNISWAP_V3.factory,
+    receiverAddress: process.env.FLASH_SWAP_RECEIVER_ADDRESS || '', // Sends flash() and handles uniswapV3FlashCallback
+    fee: 0.0005, // The lending pool's fee tier, 0.05%
+    networks: ['ETHEREUM', 'POLYGON', 'ARBITRUM', 'OPTIMISM'] as NetworkName[],
+    gasOverhead: 65_000,
+    callbackGas: 40_000, // Verify the calling pool, repay by transfer, plus the initiateFlash hop
+  },
+  UNISWAP_V2: {
+    name: 'Uniswap V2 Flash Swap',
+    factory: DEX_CONFIG.UNISWAP_V2.factory,
+    receiverAddress: process.env.FLASH_SWAP_RECEIVER_ADDRESS || '', // Handles uniswapV2Call
+    fee: 0.003009, // Repaid in the borrowed token: amount / 0.997
+    networks: ['ETHEREUM'] as NetworkName[],
+    gasOverhead: 60_000,
+    callbackGas: 35_000, // Verify the calling pair, repay by transfer before k is checked
+  }
+};
+
+export interface V2DexConfig {
+  name: string;
+  router: string;
+  factory: string;
+  fee: number;
+}
+
+export interface V3DexConfig {
+  name: string;
+  router: string;
+  factory: string;
+  quoter: string; // QuoterV2
+  fees: number[];
+  deployBlock: number; // Factory deployment, where PoolCreated discovery starts
+}
+
+// Solidly forks: stable (x³y + y³x) and volatile pools per pair, fees set per pool by the factory
+export interface SolidlyDexConfig {
+  name: string;
+  router: string;
+  factory: string; // PoolFactory, also passed in router routes
+}
+
+// Uniswap V4 singleton: pools live in the PoolManager, identified by their PoolKey
+export interface V4DexConfig {
+  name: string;
+  router: string; // Universal Router
+  poolManager: string;
+  stateView: string;
+  quoter: string; // V4Quoter
+  feeTiers: { fee: number; tickSpacing: number }[]; // Standard keys probed for every pair
+  hooks: string[]; // Hook contracts probed alongside hookless pools
+}
+
+// Curve pools are found through the MetaRegistry, which maps coins to indices for every pool type
+export interface CurveDexConfig {
+  name: string;
+  metaRegistry: string;
+}
+
+// Balancer V2: every pool trades through the Vault, which also quotes batch swaps
+export interface BalancerDexConfig {
+  name: string;
+  vault: string;
+}
+
+export interface ChainDeployment {
+  v2: V2DexConfig[]; // Uniswap V2 forks: getPair/getReserves and a fixed fee
+  v3: V3DexConfig[]; // Uniswap V3 deployments with the canonical pool events
+  solidly?: SolidlyDexConfig[];
+  v4?: V4DexConfig[];
+  curve?: CurveDexConfig;
+  balancer?: BalancerDexConfig;
+  tokens: string[]; // TOKEN_METADATA symbols scanned pairwise
+  wrappedNative: string; // Symbol of the wrapped gas token, prices gas
+}
+
+const SUSHISWAP_V2_FACTORY = '0xc35DADB65012eC5796536bD9864eD8773aBc74C4'; // Same on most sidechains and L2s
+const SUSHISWAP_V2_ROUTER = '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506';
+const BALANCER_V2 = { name: 'Balancer V2', vault: FLASH_LOAN_PROVIDERS.BALANCER.vaultAddress }; // Same Vault address on every chain
+
+const UNISWAP_V3_CANONICAL = {
+  name: DEX_CONFIG.UNISWAP_V3.name,
+  router: DEX_CONFIG.UNISWAP_V3.router,
+  factory: DEX_CONFIG.UNISWAP_V3.factory,
+  quoter: DEX_CONFIG.UNISWAP_V3.quoter,
+  fees: DEX_CONFIG.UNISWAP_V3.fees
+};
+
+// What the opportunity finder scans on each chain. Networks without an entry are not scanned.
+export const CHAIN_DEPLOYMENTS: { [network in NetworkName]?: ChainDeployment } = {
+  ETHEREUM: {
+    v2: [DEX_CONFIG.UNISWAP_V2, DEX_CONFIG.SUSHISWAP],
+    v3: [{ ...UNISWAP_V3_CANONICAL, deployBlock: 12369621 }],
+    curve: { name: 'Curve', metaRegistry: '0xF98B45FA17DE75FB1aD0e7aFD971b0ca00e379fC' },
+    balancer: BALANCER_V2,
+    tokens: ['WETH', 'USDC', 'USDT', 'DAI', 'WBTC'],
+    wrappedNative: 'WETH'
+  },
+  POLYGON: {
+    v2: [
+      { name: 'QuickSwap', router: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff', factory: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32', fee: 0.003 },
+      { name: 'SushiSwap', router: SUSHISWAP_V2_ROUTER, factory: SUSHISWAP_V2_FACTORY, fee: 0.003 }
+    ],
+    v3: [{ ...UNISWAP_V3_CANONICAL, deployBlock: 22757547 }],
+    balancer: BALANCER_V2,
+    tokens: ['WMATIC', 'WETH', 'USDC', 'USDT', 'DAI', 'WBTC'],
+    wrappedNative: 'WMATIC'
+  },
+  ARBITRUM: {
+    v2: [
+      // Camelot pairs can set directional fees, 0.3% is the default most pools keep
+      { name: 'Camelot', router: '0xc873fEcbd354f5A56E00E710B90EF4201db2448d', factory: '0x6EcCab422D763aC031210895C81787E87B43A652', fee: 0.003 },
+      { name: 'SushiSwap', router: SUSHISWAP_V2_ROUTER, factory: SUSHISWAP_V2_FACTORY, fee: 0.003 }
+    ],
+    v3: [{ ...UNISWAP_V3_CANONICAL, deployBlock: 165 }],
+    balancer: BALANCER_V2,
+    tokens: ['WETH', 'USDC', 'USDT', 'DAI', 'WBTC', 'ARB'],
+    wrappedNative: 'WETH'
+  },
+  BASE: {
+    v2: [
+      { name: 'Uniswap V2', router: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24', factory: '0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6', fee: 0.003 },
+      { name: 'SushiSwap', router: '0x6BDED42c6DA8FBf0d2bA55B2fa120C5e0c8D7891', factory: '0x71524B4f93c58fcbF659783284E38825f0622859', fee: 0.003 }
+    ],
+    solidly: [
+      { name: 'Aerodrome', router: '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43', factory: '0x420DD381b31aEf6683db6B902084cB0FFECe40Da' }
+    ],
+    v3: [{
+      name: 'Uniswap V3',
+      router: '0x2626664c2603336E57B271c5C0b26F421741e481', // SwapRouter02
+      factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+      quoter: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+      fees: DEX_CONFIG.UNISWAP_V3.fees,
+      deployBlock: 1371680
+    }],
+    balancer: BALANCER_V2,
+    tokens: ['WETH', 'USDC', 'DAI', 'AERO'],
+    wrappedNative: 'WETH'
+  },
+  OPTIMISM: {
+    v2: [
+      { name: 'Uniswap V2', router: '0x4A7b5Da61326A6379179b40d00F57E5bbDC962c2', factory: '0x0c3c1c532F1e39EdF36BE9Fe0bE1410313E074Bf', fee: 0.003 }
+    ],
+    v3: [{ ...UNISWAP_V3_CANONICAL, deployBlock: 0 }], // Part of the OVM 2.0 regenesis state
+    solidly: [
+      { name: 'Velodrome', router: '0xa062aE8A9c5e11aaA026fc2670B0D65cCc8B2858', factory: '0xF1046053aa5682b4F9a81b5481394DA67BA5ffAA' }
+    ],
+    balancer: BALANCER_V2,
+    tokens: ['WETH', 'USDC', 'USDT', 'DAI', 'WBTC', 'OP', 'VELO'],
+    wrappedNative: 'WETH'
+  },
+  BNB: {
+    v2: [
+      { name: DEX_CONFIG.PANCAKESWAP.name, router: DEX_CONFIG.PANCAKESWAP.router, factory: DEX_CONFIG.PANCAKESWAP.factory, fee: DEX_CONFIG.PANCAKESWAP.fee },
+      { name: 'SushiSwap', router: SUSHISWAP_V2_ROUTER, factory: SUSHISWAP_V2_FACTORY, fee: 0.003 }
+    ],
+    v3: [{
+      name: 'Uniswap V3',
+      router: '0xB971eF87ede563556b2ED4b1C0b0019111Dd85d2', // SwapRouter02
+      factory: '0xdB1d10011AD0Ff90774D0C6Bb92e5C5c8b4461F7',
+      quoter: '0x78D78E420Da98ad378D7799bE8f4AF69033EB077',
+      fees: DEX_CONFIG.UNISWAP_V3.fees,
+      deployBlock: 26324014
+    }],
+    tokens: ['WBNB', 'WETH', 'USDC', 'USDT', 'BTCB'],
+    wrappedNative: 'WBNB'
+  },
+  AVALANCHE: {
+    v2: [
+      { name: 'Trader Joe', router: '0x60aE616a2155Ee3d9A68541Ba4544862310933d4', factory: '0x9Ad6C38BE94206cA50bb0d90783181662f0Cfa10', fee: 0.003 },
+      { name: 'Pangolin', router: '0xE54Ca86531e17Ef3616d22Ca28b0D458b6C89106', factory: '0xefa94DE7a4656D787667C749f7E1223D71E9FD88', fee: 0.003 },
+      { name: 'SushiSwap', router: SUSHISWAP_V2_ROUTER, factory: SUSHISWAP_V2_FACTORY, fee: 0.003 }
+    ],
+    v3: [],
+    tokens: ['WAVAX', 'WETH', 'USDC', 'USDT'],
+    wrappedNative: 'WAVAX'
+  },
+  UNICHAIN: {
+    v2: [
+      { name: 'Uniswap V2', router: '0x284F11109359a7e1306C3e447ef14D38400063FF', factory: '0x1F98400000000000000000000000000000000002', fee: 0.003 }
+    ],
+    v3: [{
+      name: 'Uniswap V3',
+      router: '0x73855d06DE49d0fe4A9c42636Ba96c62da12FF9C', // SwapRouter02
+      factory: '0x1F98400000000000000000000000000000000003',
+      quoter: '0x385A5cf5F83e99f7BB2852b6A19C3538b3C6e5b8',
+      fees: DEX_CONFIG.UNISWAP_V3.fees,
+      deployBlock: 0
+    }],
+    v4: [{
+      name: 'Uniswap V4',
+      router: '0xEf740bf23aCaE26f6492B10de645D6B98dC8Eaf3',
+      poolManager: '0x1F98400000000000000000000000000000000004',
+      stateView: '0x86e8631A016F9068C3f085fAF484Ee3F5fDee8f2',
+      quoter: '0x333E3C607B141b18fF6de9f258db6e77fE7491E0',
+      feeTiers: [
+        { fee: 0.0001, tickSpacing: 1 },
+        { fee: 0.0005, tickSpacing: 10 },
+        { fee: 0.003, tickSpacing: 60 },
+        { fee: 0.01, tickSpacing: 200 }
+      ],
+      hooks: []
+    }],
+    tokens: ['WETH', 'USDC', 'UNI'],
+    wrappedNative: 'WETH'
   }
 };
 
+// Multicall3 is deployed at the same address on every supported chain
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
 export const TOKENS = {
   WETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
-  USDC: '0xA0b86a33E6417c13C812C72De3FE58dD2C5d1D65',
+  USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
   USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
   DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
   WBTC: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
 };
 
+// Token metadata per chain, keyed by the lowercased NETWORK_CONFIG name
+export const TOKEN_METADATA: { [chain: string]: { symbol: string; address: string; decimals: number }[] } = {
+  ethereum: [
+    { symbol: 'WETH', address: TOKENS.WETH, decimals: 18 },
+    { symbol: 'USDC', address: TOKENS.USDC, decimals: 6 },
+    { symbol: 'USDT', address: TOKENS.USDT, decimals: 6 },
+    { symbol: 'DAI', address: TOKENS.DAI, decimals: 18 },
+    { symbol: 'WBTC', address: TOKENS.WBTC, decimals: 8 },
+    { symbol: 'LINK', address: '0x514910771AF9Ca656af840dff83E8264EcF986CA', decimals: 18 },
+    { symbol: 'UNI', address: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984', decimals: 18 },
+    { symbol: 'AAVE', address: '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9', decimals: 18 }
+  ],
+  polygon: [
+    { symbol: 'WMATIC', address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', decimals: 18 },
+    { symbol: 'WETH', address: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', decimals: 18 },
+    { symbol: 'USDC', address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', decimals: 6 },
+    { symbol: 'USDT', address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6 },
+    { symbol: 'DAI', address: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', decimals: 18 },
+    { symbol: 'WBTC', address: '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6', decimals: 8 }
+  ],
+  'arbitrum one': [
+    { symbol: 'WETH', address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', decimals: 18 },
+    { symbol: 'USDC', address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6 },
+    { symbol: 'USDT', address: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', decimals: 6 },
+    { symbol: 'DAI', address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', decimals: 18 },
+    { symbol: 'WBTC', address: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f', decimals: 8 },
+    { symbol: 'ARB', address: '0x912CE59144191C1204E64559FE8253a0e49E6548', decimals: 18 }
+  ],
+  base: [
+    { symbol: 'WETH', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+    { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 },
+    { symbol: 'DAI', address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', decimals: 18 },
+    { symbol: 'AERO', address: '0x940181a94A35A4569E4529A3CDfB74e38FD98631', decimals: 18 }
+  ],
+  'op mainnet': [
+    { symbol: 'WETH', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+    { symbol: 'USDC', address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', decimals: 6 },
+    { symbol: 'USDT', address: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58', decimals: 6 },
+    { symbol: 'DAI', address: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1', decimals: 18 },
+    { symbol: 'WBTC', address: '0x68f180fcCe6836688e9084f035309E29Bf0A2095', decimals: 8 },
+    { symbol: 'OP', address: '0x4200000000000000000000000000000000000042', decimals: 18 },
+    { symbol: 'VELO', address: '0x9560e827aF36c94D2Ac33a39bCE1Fe78631088Db', decimals: 18 }
+  ],
+  'bnb smart chain': [
+    { symbol: 'WBNB', address: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', decimals: 18 },
+    { symbol: 'WETH', address: '0x2170Ed0880ac9A755fd29B2688956BD959F933F8', decimals: 18 }, // Binance-Peg ETH
+    { symbol: 'USDC', address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', decimals: 18 },
+    { symbol: 'USDT', address: '0x55d398326f99059fF775485246999027B3197955', decimals: 18 },
+    { symbol: 'BTCB', address: '0x7130d2A12B9BCbFAe4f2634d864A1Ee1Ce3Ead9c', decimals: 18 }
+  ],
+  avalanche: [
+    { symbol: 'WAVAX', address: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7', decimals: 18 },
+    { symbol: 'WETH', address: '0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB', decimals: 18 }, // WETH.e
+    { symbol: 'USDC', address: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E', decimals: 6 },
+    { symbol: 'USDT', address: '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7', decimals: 6 }
+  ],
+  unichain: [
+    { symbol: 'WETH', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+    { symbol: 'USDC', address: '0x078D782b760474a361dDA0AF3839290b0EF57AD6', decimals: 6 },
+    { symbol: 'UNI', address: '0x8f187aA05619a017077f5308904739877ce9eA21', decimals: 18 }
+  ]
+};
+
+// Token that each quote currency is measured in on-chain
+export const QUOTE_CURRENCY_TOKENS = {
+  ETH: 'WETH',
+  USD: 'USDC'
+};
+
 export const BOT_CONFIG = {
+  QUOTE_CURRENCY: (process.env.QUOTE_CURRENCY === 'USD' ? 'USD' : 'ETH') as keyof typeof QUOTE_CURRENCY_TOKENS,
   MIN_PROFIT_THRESHOLD: parseFloat(process.env.MIN_PROFIT_THRESHOLD || '0.01'),
   MAX_SLIPPAGE: parseFloat(process.env.MAX_SLIPPAGE || '0.005'),
-  GAS_PRICE_GWEI: parseInt(process.env.GAS_PRICE_GWEI || '20'),
+  GAS_PRICE_GWEI: parseInt(process.env.GAS_PRICE_GWEI || '20'), // Ceiling on the fee per gas of every trade
   MAX_GAS_LIMIT: parseInt(process.env.MAX_GAS_LIMIT || '500000'),
   OPPORTUNITY_SCAN_INTERVAL: parseInt(process.env.OPPORTUNITY_SCAN_INTERVAL || '1000'),
+  OPPORTUNITY_TTL_BLOCKS: parseInt(process.env.OPPORTUNITY_TTL_BLOCKS || '2'), // Blocks an opportunity survives without re-detection
+  SCAN_MODE: (process.env.SCAN_MODE === 'block' ? 'block' : 'poll') as 'block' | 'poll', // 'block' re-evaluates pairs on Sync/Swap events
+  // Chains the multi-chain finder scans, defaults to every chain in CHAIN_DEPLOYMENTS
+  SCAN_NETWORKS: (process.env.SCAN_NETWORKS ? process.env.SCAN_NETWORKS.split(',').map(network => network.trim().toUpperCase()) : []) as NetworkName[],
+  // Uniswap V4 pools whose hooks run on swaps: 'none' skips every hooked pool, 'passive' keeps
+  // hooks that don't touch swaps, 'all' quotes everything (the quoter runs the hooks too)
+  V4_HOOK_POLICY: (['none', 'all'].includes(process.env.V4_HOOK_POLICY || '') ? process.env.V4_HOOK_POLICY : 'passive') as 'none' | 'passive' | 'all',
+  FEE_STRATEGY: {
+    PROFIT_SHARE: parseFloat(process.env.FEE_PROFIT_SHARE || '0.3'), // Share of a trade's expected profit before gas bid as gas fees
+  },
   MAX_CONCURRENT_TRADES: 3,
+  TRANSACTIONS: {
+    CONFIRMATIONS: parseInt(process.env.TX_CONFIRMATIONS || '2'), // Blocks, counting its own, before an included trade is final
+    DEADLINE_BLOCKS: parseInt(process.env.TX_DEADLINE_BLOCKS || '3'), // Blocks a trade may stay pending before it is replaced
+    // What replaces a trade past its deadline: 'cancel' sends a 0 ETH self-transfer on its nonce, 'speedup' resends it with higher fees
+    STALE_ACTION: (process.env.TX_STALE_ACTION === 'speedup' ? 'speedup' : 'cancel') as 'speedup' | 'cancel',
+    MAX_REPLACEMENTS: parseInt(process.env.TX_MAX_REPLACEMENTS || '3'), // Refused ones included; the last is a cancel, after it the trade counts as dropped
+    FEE_BUMP_PERCENT: parseInt(process.env.TX_FEE_BUMP_PERCENT || '15'), // Nodes only accept replacements paying 10% more
+    DROP_GRACE_BLOCKS: 2, // Blocks a transaction may be unknown to the node before it counts as dropped
+  },
+  // Where the trading key lives: 'keystore' decrypts an encrypted JSON keystore, 'remote' asks an
+  // HTTP signer to sign, 'env' takes PRIVATE_KEY (scrubbed from the environment once read)
+  SIGNER: {
+    TYPE: (process.env.SIGNER_TYPE || (process.env.SIGNER_KEYSTORE_PATH ? 'keystore' : process.env.SIGNER_URL ? 'remote' : 'env')) as 'keystore' | 'remote' | 'env',
+    KEYSTORE_PATH: process.env.SIGNER_KEYSTORE_PATH || '',
+    // Read instead of prompting, e.g. a mounted secret; KEYSTORE_PASSPHRASE works too but is scrubbed after use
+    KEYSTORE_PASSPHRASE_FILE: process.env.KEYSTORE_PASSPHRASE_FILE || '',
+    REMOTE_URL: process.env.SIGNER_URL || '',
+    REMOTE_ADDRESS: process.env.SIGNER_ADDRESS || '', // Account to use when the signer holds several
+    REMOTE_AUTH_TOKEN: process.env.SIGNER_AUTH_TOKEN || '', // Bearer token, required by npm run signer-server
+    REMOTE_TIMEOUT: parseInt(process.env.SIGNER_TIMEOUT || '5000'),
+    SERVER_PORT: parseInt(process.env.SIGNER_SERVER_PORT || '8550'), // npm run signer-server
+  },
+  // Trades sent as bundles through a Flashbots-compatible relay instead of the public mempool
+  PRIVATE_BUNDLES: {
+    ENABLED: process.env.PRIVATE_BUNDLES === 'true',
+    RELAY_URL: process.env.BUNDLE_RELAY_URL || 'https://relay.flashbots.net',
+    // Signs relay requests to build searcher reputation, a throwaway key is used when unset
+    AUTH_KEY: process.env.BUNDLE_RELAY_AUTH_KEY || '',
+    TARGET_BLOCKS: parseInt(process.env.BUNDLE_TARGET_BLOCKS || '3'), // Consecutive blocks each bundle is offered for
+    MOCK_RELAY_PORT: parseInt(process.env.MOCK_RELAY_PORT || '8547'), // npm run mock-relay
+  },
+  MAX_CYCLE_HOPS: parseInt(process.env.MAX_CYCLE_HOPS || '4'), // Longest multi-hop cycle to search
+  COST_MODEL: {
+    // Pins every route to one provider, otherwise each route takes the one leaving the most net profit
+    FLASH_LOAN_PROVIDER: (process.env.FLASH_LOAN_PROVIDER || null) as keyof typeof FLASH_LOAN_PROVIDERS | null,
+    SLIPPAGE_BUFFER_BPS: parseInt(process.env.SLIPPAGE_BUFFER_BPS || '10'), // Held back from the final output, 10 = 0.1%
+  },
+  CURVE: {
+    // Trade sizes Curve pools are quoted at, in USD - converted into the input token through Uniswap/Sushi
+    QUOTE_SIZES_USD: (process.env.CURVE_QUOTE_SIZES_USD || '1000,10000,100000').split(',').map(size => parseFloat(size)),
+    MAX_POOLS: parseInt(process.env.CURVE_MAX_POOLS || '20'), // Largest subgraph pools quoted per scan
+  },
+  BALANCER: {
+    // Trade sizes Balancer swaps are quoted at, in USD - converted into the input token through Uniswap/Sushi
+    QUOTE_SIZES_USD: (process.env.BALANCER_QUOTE_SIZES_USD || '1000,10000,100000').split(',').map(size => parseFloat(size)),
+    MAX_POOLS: parseInt(process.env.BALANCER_MAX_POOLS || '20'), // Largest subgraph pools quoted per scan
+    MAX_PATHS: parseInt(process.env.BALANCER_MAX_PATHS || '8'), // Direct and two-pool paths quoted per pair
+  },
+  PAIR_DISCOVERY: {
+    ENABLED: process.env.PAIR_DISCOVERY === 'true',
+    REGISTRY_PATH: process.env.POOL_REGISTRY_PATH || 'data/pool-registry.json',
+    // Minimum pool depth (both sides) in the quote currency
+    MIN_LIQUIDITY: parseFloat(process.env.DISCOVERY_MIN_LIQUIDITY || (process.env.QUOTE_CURRENCY === 'USD' ? '100000' : '50')),
+    // First block searched for PoolCreated logs, defaults to each chain's V3 factory deployment
+    START_BLOCK: process.env.DISCOVERY_START_BLOCK ? parseInt(process.env.DISCOVERY_START_BLOCK) : null,
+    PAIRS_PER_RUN: parseInt(process.env.DISCOVERY_PAIRS_PER_RUN || '2000'), // allPairs entries walked per V2 factory per run
+    BLOCKS_PER_RUN: parseInt(process.env.DISCOVERY_BLOCKS_PER_RUN || '500000'), // PoolCreated log range per run
+    RECHECK_PER_RUN: parseInt(process.env.DISCOVERY_RECHECK_PER_RUN || '5000'), // Pools seen below the threshold re-measured per run
+    LOG_BLOCK_RANGE: 10000, // Blocks per getLogs request
+    INTERVAL: parseInt(process.env.DISCOVERY_INTERVAL || '300000'), // 5 minutes
+  },
   RISK_MANAGEMENT: {
     MAX_TRADE_SIZE: 10, // ETH
     STOP_LOSS: 0.05, // 5%
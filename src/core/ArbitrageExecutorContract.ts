@@ -0,0 +1,193 @@
+import { ethers } from 'ethers';
+import { ARBITRAGE_EXECUTOR_ADDRESSES, NetworkName } from '../config/constants';
+
+// Swap kinds the contract executes, matching its uint8 constants
+export const EXECUTOR_DEX_TYPES = {
+  UNISWAP_V2: 0, // data: fee in bps
+  UNISWAP_V3: 1,
+  SOLIDLY: 2,
+  CURVE: 3, // data: coin indices, underlying and crypto flags
+  BALANCER: 4 // pool: the Vault, data: batchSwap calldata
+} as const;
+
+export type ExecutorDexType = keyof typeof EXECUTOR_DEX_TYPES;
+
+export interface CurveSwapParams {
+  i: number;
+  j: number;
+  underlying: boolean; // exchange_underlying, a metapool against its base pool's coins
+  crypto: boolean; // Crypto pools index coins as uint256
+}
+
+export interface ExecutorSwapStep {
+  dexType: ExecutorDexType;
+  pool: string;
+  tokenIn: string;
+  tokenOut: string;
+  zeroForOne: boolean; // token0 -> token1, V2/V3/Solidly only
+  minAmountOut: string;
+  data: string;
+}
+
+// What the contract runs inside the loan callback, sent as the loan's params/userData
+export interface ExecutorRoute {
+  asset: string;
+  amount: string;
+  minProfit: string; // Left after repayment, raw units of the asset
+  steps: ExecutorSwapStep[];
+}
+
+export type ExecutorEvent =
+  | { name: 'ArbitrageExecuted'; asset: string; amount: string; fee: string; profit: string }
+  | { name: 'SwapExecuted'; dexType: ExecutorDexType; pool: string; tokenIn: string; tokenOut: string; amountIn: string; amountOut: string }
+  | { name: 'ProfitWithdrawn'; token: string; to: string; amount: string };
+
+/**
+ * Typed client for contracts/ArbitrageExecutor.sol: encodes routes and the initiateFlash call
+ * that takes a loan through it, and decodes its events and errors. Works against any address
+ * and runner, so a locally deployed build can be driven the same as a chain's configured one.
+ */
+export class ArbitrageExecutorContract {
+  readonly address: string;
+  private contract: ethers.Contract;
+
+  private static readonly ROUTE_TYPE =
+    'tuple(address asset, uint256 amount, uint256 minProfit, tuple(uint8 dexType, address pool, address tokenIn, address tokenOut, bool zeroForOne, uint256 minAmountOut, bytes data)[] steps)';
+
+  static readonly ABI = [
+    'function owner() external view returns (address)',
+    'function initiateFlash(address lender, bytes flashCall) external returns (uint256 profit)',
+    'function withdraw(address token, uint256 amount, address to) external',
+    'event ArbitrageExecuted(address indexed asset, uint256 amount, uint256 fee, uint256 profit)',
+    'event SwapExecuted(uint8 dexType, address indexed pool, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut)',
+    'event ProfitWithdrawn(address indexed token, address indexed to, uint256 amount)',
+    'error NotOwner()',
+    'error UnexpectedCallback(address caller)',
+    'error InsufficientOutput(uint256 step, uint256 amountOut, uint256 minAmountOut)',
+    'error InsufficientProfit(uint256 amountOut, uint256 owed, uint256 minProfit)',
+    'error UnsupportedDex(uint8 dexType)',
+    'error CallFailed(address target, bytes reason)'
+  ];
+
+  static readonly INTERFACE = new ethers.Interface(ArbitrageExecutorContract.ABI);
+
+  constructor(address: string, runner: ethers.ContractRunner) {
+    this.address = address;
+    this.contract = new ethers.Contract(address, ArbitrageExecutorContract.ABI, runner);
+  }
+
+  // The chain's configured deployment, or null when none is set
+  static forNetwork(network: NetworkName, runner: ethers.ContractRunner): ArbitrageExecutorContract | null {
+    const address = ARBITRAGE_EXECUTOR_ADDRESSES[network];
+    return address ? new ArbitrageExecutorContract(address, runner) : null;
+  }
+
+  static encodeRoute(route: ExecutorRoute): string {
+    return ethers.AbiCoder.defaultAbiCoder().encode([ArbitrageExecutorContract.ROUTE_TYPE], [{
+      ...route,
+      steps: route.steps.map(step => ({ ...step, dexType: EXECUTOR_DEX_TYPES[step.dexType] }))
+    }]);
+  }
+
+  static decodeRoute(data: string): ExecutorRoute {
+    const [route] = ethers.AbiCoder.defaultAbiCoder().decode([ArbitrageExecutorContract.ROUTE_TYPE], data);
+    return {
+      asset: route.asset,
+      amount: route.amount.toString(),
+      minProfit: route.minProfit.toString(),
+      steps: route.steps.map((step: any): ExecutorSwapStep => ({
+        dexType: ArbitrageExecutorContract.toDexType(step.dexType),
+        pool: step.pool,
+        tokenIn: step.tokenIn,
+        tokenOut: step.tokenOut,
+        zeroForOne: step.zeroForOne,
+        minAmountOut: step.minAmountOut.toString(),
+        data: step.data
+      }))
+    };
+  }
+
+  static encodeV2Data(feeBps: bigint): string {
+    return ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [feeBps]);
+  }
+
+  static encodeCurveData(params: CurveSwapParams): string {
+    return ethers.AbiCoder.defaultAbiCoder().encode(
+      ['int128', 'int128', 'bool', 'bool'],
+      [params.i, params.j, params.underlying, params.crypto]
+    );
+  }
+
+  // Calldata for the owner's initiateFlash, `flashCall` being the lender call that pays out to the contract
+  static encodeInitiateFlash(lender: string, flashCall: string): string {
+    return ArbitrageExecutorContract.INTERFACE.encodeFunctionData('initiateFlash', [lender, flashCall]);
+  }
+
+  // The contract's events among a receipt's logs, in log order
+  static parseEvents(logs: readonly ethers.Log[], address: string): ExecutorEvent[] {
+    const events: ExecutorEvent[] = [];
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== address.toLowerCase()) continue;
+
+      let parsed: ethers.LogDescription | null;
+      try {
+        parsed = ArbitrageExecutorContract.INTERFACE.parseLog({ topics: [...log.topics], data: log.data });
+      } catch {
+        continue;
+      }
+
+      switch (parsed?.name) {
+        case 'ArbitrageExecuted':
+          events.push({
+            name: 'ArbitrageExecuted',
+            asset: parsed.args.asset,
+            amount: parsed.args.amount.toString(),
+            fee: parsed.args.fee.toString(),
+            profit: parsed.args.profit.toString()
+          });
+          break;
+        case 'SwapExecuted':
+          events.push({
+            name: 'SwapExecuted',
+            dexType: ArbitrageExecutorContract.toDexType(parsed.args.dexType),
+            pool: parsed.args.pool,
+            tokenIn: parsed.args.tokenIn,
+            tokenOut: parsed.args.tokenOut,
+            amountIn: parsed.args.amountIn.toString(),
+            amountOut: parsed.args.amountOut.toString()
+          });
+          break;
+        case 'ProfitWithdrawn':
+          events.push({ name: 'ProfitWithdrawn', token: parsed.args.token, to: parsed.args.to, amount: parsed.args.amount.toString() });
+          break;
+      }
+    }
+    return events;
+  }
+
+  // One of the contract's custom errors as name(args), null for revert data it didn't raise
+  static decodeError(revertData: string): string | null {
+    try {
+      const parsed = ArbitrageExecutorContract.INTERFACE.parseError(revertData);
+      if (!parsed) return null;
+      return `${parsed.name}(${parsed.args.map(arg => arg.toString()).join(', ')})`;
+    } catch {
+      return null;
+    }
+  }
+
+  async getOwner(): Promise<string> {
+    return await this.contract.owner();
+  }
+
+  // Moves accumulated profit out of the contract, owner only
+  async withdraw(token: string, amount: bigint, to: string): Promise<ethers.TransactionResponse> {
+    return await this.contract.withdraw(token, amount, to);
+  }
+
+  private static toDexType(value: bigint | number): ExecutorDexType {
+    const dexType = (Object.keys(EXECUTOR_DEX_TYPES) as ExecutorDexType[]).find(key => EXECUTOR_DEX_TYPES[key] === Number(value));
+    if (!dexType) throw new Error(`Unknown executor DEX type ${value}`);
+    return dexType;
+  }
+}
@@ -0,0 +1,128 @@
+import { PoolKey } from './UniswapV4Adapter';
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  dex: string;
+  router: string;
+  fee?: number;
+  stable?: boolean; // Solidly pool type
+  poolKey?: PoolKey; // Uniswap V4 pool
+  amountIn: bigint;
+  amountOut: bigint;
+  spotAmountOut?: bigint; // Mid-price output for amountIn, when the pool's state is known
+  gasUnits?: bigint;
+  weight: number; // -ln(rate), negative cycles are profitable
+}
+
+export interface ArbitrageCycle {
+  edges: GraphEdge[];
+  rate: number; // product of edge rates, > 1 means profit
+}
+
+interface PathState {
+  weight: number;
+  path: GraphEdge[];
+}
+
+/**
+ * Token/pool graph for multi-hop arbitrage detection.
+ * Every quoted pool direction is an edge weighted by -ln(amountOut / amountIn),
+ * so a cycle whose weights sum below zero returns more than it started with.
+ */
+export class ArbitrageGraph {
+  private adjacency: Map<string, GraphEdge[]> = new Map();
+
+  // Ignore cycles whose edge product is within rounding noise of 1
+  private readonly EPSILON = 1e-9;
+
+  addEdge(from: string, to: string, quote: Omit<GraphEdge, 'from' | 'to' | 'weight'>): void {
+    if (quote.amountIn <= 0n || quote.amountOut <= 0n) return;
+
+    const rate = Number(quote.amountOut) / Number(quote.amountIn);
+    const edge: GraphEdge = {
+      from,
+      to,
+      dex: quote.dex,
+      router: quote.router,
+      fee: quote.fee,
+      stable: quote.stable,
+      poolKey: quote.poolKey,
+      amountIn: quote.amountIn,
+      amountOut: quote.amountOut,
+      spotAmountOut: quote.spotAmountOut,
+      gasUnits: quote.gasUnits,
+      weight: -Math.log(rate)
+    };
+
+    if (!this.adjacency.has(from)) {
+      this.adjacency.set(from, []);
+    }
+    this.adjacency.get(from)!.push(edge);
+  }
+
+  getEdgeCount(): number {
+    let count = 0;
+    for (const edges of this.adjacency.values()) {
+      count += edges.length;
+    }
+    return count;
+  }
+
+  clear(): void {
+    this.adjacency.clear();
+  }
+
+  /**
+   * Hop-bounded Bellman-Ford: for every source token, relax edges layer by layer
+   * (one layer per hop) keeping the lightest simple path to each token, and report
+   * every return to the source whose total weight is negative.
+   */
+  findNegativeCycles(minHops: number, maxHops: number): ArbitrageCycle[] {
+    const cycles = new Map<string, ArbitrageCycle>();
+
+    for (const source of this.adjacency.keys()) {
+      let layer = new Map<string, PathState>([[source, { weight: 0, path: [] }]]);
+
+      for (let hop = 1; hop <= maxHops; hop++) {
+        const next = new Map<string, PathState>();
+
+        for (const [token, state] of layer) {
+          for (const edge of this.adjacency.get(token) || []) {
+            const weight = state.weight + edge.weight;
+
+            if (edge.to === source) {
+              if (hop >= minHops && weight < -this.EPSILON) {
+                this.recordCycle(cycles, [...state.path, edge], weight);
+              }
+              continue;
+            }
+
+            // Only simple paths - revisiting a token splits into smaller cycles
+            if (state.path.some(e => e.from === edge.to)) continue;
+
+            const current = next.get(edge.to);
+            if (!current || weight < current.weight) {
+              next.set(edge.to, { weight, path: [...state.path, edge] });
+            }
+          }
+        }
+
+        layer = next;
+      }
+    }
+
+    return Array.from(cycles.values()).sort((a, b) => b.rate - a.rate);
+  }
+
+  private recordCycle(cycles: Map<string, ArbitrageCycle>, edges: GraphEdge[], weight: number): void {
+    // The same cycle is found once from each of its tokens; key it independently of rotation
+    const key = edges.map(e => `${e.from}>${e.to}@${e.dex}`).sort().join('|');
+    const rate = Math.exp(-weight);
+    const existing = cycles.get(key);
+
+    if (!existing || rate > existing.rate) {
+      cycles.set(key, { edges, rate });
+    }
+  }
+}
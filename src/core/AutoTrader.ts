@@ -1,6 +1,10 @@
 import { logger } from '../utils/logger';
 import { OpportunityFinder, ArbitrageOpportunity } from './OpportunityFinder';
+import { OpportunityStream } from './OpportunityStream';
 import { FlashLoanExecutor, TradeResult } from './FlashLoanExecutor';
+import { RealisedProfit } from './TradeReceiptParser';
+import { TrackedTransaction, TransactionState } from './TransactionTracker';
+import { BundleState, TrackedBundle } from './BundleSubmitter';
 import { PriceMonitor, WebSocketPriceUpdate } from './PriceMonitor';
 import { BOT_CONFIG } from '../config/constants';
 
@@ -8,8 +12,9 @@ export interface TradingStats {
   totalTrades: number;
   successfulTrades: number;
   failedTrades: number;
-  totalProfit: string;
+  totalProfit: string; // Realised USD, reverted trades count with their gas
   averageProfit: string;
+  totalGasCost: string; // Native currency
   uptime: number;
   startTime: number;
 }
@@ -21,6 +26,18 @@ export interface RiskManagement {
   consecutiveFailures: number;
 }
 
+export interface TradeRecord {
+  opportunityId: string;
+  timestamp: number;
+  executionTime: number; // ms from submission to receipt
+  success: boolean;
+  txHash?: string;
+  expectedProfit: string; // As the opportunity priced it, in its profitCurrency
+  profitCurrency?: string;
+  realised?: RealisedProfit;
+  error?: string;
+}
+
 export class AutoTrader {
   private opportunityFinder: OpportunityFinder;
   private flashLoanExecutor: FlashLoanExecutor;
@@ -29,7 +46,11 @@ export class AutoTrader {
   private isRunning: boolean = false;
   private stats: TradingStats;
   private risk: RiskManagement;
-  private tradingInterval: NodeJS.Timeout | null = null;
+  private tradeHistory: TradeRecord[] = [];
+  private opportunityStream: OpportunityStream | null = null;
+  private inFlight: Set<string> = new Set(); // Opportunities a trading cycle is validating or trading
+
+  private readonly MAX_TRADE_HISTORY = 500;
 
   constructor(
     opportunityFinder: OpportunityFinder,
@@ -46,6 +67,7 @@ export class AutoTrader {
       failedTrades: 0,
       totalProfit: '0',
       averageProfit: '0',
+      totalGasCost: '0',
       uptime: 0,
       startTime: Date.now()
     };
@@ -58,6 +80,7 @@ export class AutoTrader {
     };
 
     this.setupPriceMonitorCallbacks();
+    this.setupTransactionCallbacks();
   }
 
   async start(): Promise<void> {
@@ -91,10 +114,7 @@ export class AutoTrader {
     this.isRunning = false;
 
     // Stop trading loop
-    if (this.tradingInterval) {
-      clearInterval(this.tradingInterval);
-      this.tradingInterval = null;
-    }
+    this.stopTradingLoop();
 
     // Stop monitoring services
     await this.opportunityFinder.stopScanning();
@@ -110,6 +130,52 @@ export class AutoTrader {
     });
   }
 
+  private setupTransactionCallbacks(): void {
+    this.flashLoanExecutor.getTransactionTracker().on('transaction:state', (transaction, previous) => {
+      this.handleTransactionState(transaction, previous);
+    });
+    this.flashLoanExecutor.getBundleSubmitter()?.on('bundle:state', (bundle, previous) => {
+      this.handleBundleState(bundle, previous);
+    });
+  }
+
+  private handleTransactionState(transaction: TrackedTransaction, previous: TransactionState | null): void {
+    const label = `${transaction.kind} ${transaction.hash} (nonce ${transaction.nonce}${transaction.label ? `, ${transaction.label}` : ''})`;
+    const change = previous ? `${previous} → ${transaction.state}` : transaction.state;
+
+    switch (transaction.state) {
+      case 'dropped':
+      case 'replaced':
+        logger.warn(`Transaction ${label}: ${change}${transaction.replacedBy ? ` by ${transaction.replacedBy}` : ''}`);
+        break;
+      case 'included':
+        logger.info(`Transaction ${label}: ${change} in block ${transaction.includedBlock}`);
+        break;
+      default:
+        logger.info(`Transaction ${label}: ${change}`);
+    }
+  }
+
+  private handleBundleState(bundle: TrackedBundle, previous: BundleState | null): void {
+    const label = `${bundle.bundleHash} (${bundle.transactionHash}, nonce ${bundle.nonce}${bundle.label ? `, ${bundle.label}` : ''})`;
+    const change = previous ? `${previous} → ${bundle.state}` : bundle.state;
+
+    switch (bundle.state) {
+      case 'rejected':
+      case 'expired':
+        logger.warn(`Bundle ${label}: ${change}${bundle.error ? `, ${bundle.error}` : ''}`);
+        break;
+      case 'submitted':
+        logger.info(`Bundle ${label}: ${change} for blocks ${bundle.firstBlock}-${bundle.lastBlock}`);
+        break;
+      case 'included':
+        logger.info(`Bundle ${label}: ${change} in block ${bundle.includedBlock}`);
+        break;
+      default:
+        logger.info(`Bundle ${label}: ${change}`);
+    }
+  }
+
   private handlePriceUpdate(update: WebSocketPriceUpdate): void {
     logger.debug(`Price update: ${update.symbol} = $${update.price}`);
     
@@ -118,17 +184,36 @@ export class AutoTrader {
   }
 
   private startTradingLoop(): void {
-    const interval = 2000; // Check every 2 seconds
-    
-    this.tradingInterval = setInterval(async () => {
-      if (!this.isRunning) return;
-      
-      try {
-        await this.executeTradingCycle();
-      } catch (error) {
+    // Trade as soon as the finder reports something instead of polling. Trades run alongside
+    // each other up to MAX_CONCURRENT_TRADES; events arriving while all slots are busy are skipped.
+    this.opportunityStream = this.opportunityFinder.subscribe({
+      bufferSize: 16,
+      events: ['opportunity:new', 'opportunity:updated']
+    });
+
+    this.consumeOpportunities(this.opportunityStream);
+  }
+
+  private stopTradingLoop(): void {
+    if (this.opportunityStream) {
+      this.opportunityStream.close();
+      this.opportunityStream = null;
+    }
+  }
+
+  private async consumeOpportunities(stream: OpportunityStream): Promise<void> {
+    for await (const _event of stream) {
+      if (!this.isRunning) break;
+
+      const active = Math.max(this.inFlight.size, this.flashLoanExecutor.getActiveTradesCount());
+      if (active >= BOT_CONFIG.MAX_CONCURRENT_TRADES) continue;
+
+      // Each cycle still picks the best current opportunity, not necessarily the one in the event.
+      // Not awaited, a trade holds its cycle until its nonce settles
+      this.executeTradingCycle().catch(error => {
         logger.error('Error in trading cycle:', error);
-      }
-    }, interval);
+      });
+    }
   }
 
   private async executeTradingCycle(): Promise<void> {
@@ -137,13 +222,22 @@ export class AutoTrader {
       return;
     }
 
-    // Get best opportunity
-    const opportunity = this.opportunityFinder.getBestOpportunity();
+    // Get best opportunity no other cycle is working on
+    const opportunity = this.opportunityFinder.getBestOpportunity(this.inFlight);
     if (!opportunity) {
       logger.debug('No profitable opportunities found');
       return;
     }
 
+    this.inFlight.add(opportunity.id);
+    try {
+      await this.tradeOpportunity(opportunity);
+    } finally {
+      this.inFlight.delete(opportunity.id);
+    }
+  }
+
+  private async tradeOpportunity(opportunity: ArbitrageOpportunity): Promise<void> {
     logger.info(`Found opportunity: ${opportunity.profitPercentage.toFixed(4)}% profit potential`);
 
     // Validate opportunity is still valid
@@ -203,10 +297,20 @@ export class AutoTrader {
       return false;
     }
 
-    // Simulate the trade to check if it's still profitable
-    const isValid = await this.flashLoanExecutor.simulateArbitrage(opportunity);
-    if (!isValid) {
-      logger.debug('Opportunity simulation failed');
+    // Run the exact transaction against the latest state, a revert means it would fail on-chain
+    const simulation = await this.flashLoanExecutor.simulateArbitrage(opportunity);
+    if (!simulation.success) {
+      logger.debug(`Opportunity simulation failed: ${simulation.revertReason || simulation.error}`);
+      return false;
+    }
+
+    if (simulation.profit === undefined || BigInt(simulation.profit) <= 0n) {
+      logger.debug('Opportunity simulation shows no profit');
+      return false;
+    }
+
+    if (simulation.gasUsed && BigInt(simulation.gasUsed) > BigInt(BOT_CONFIG.MAX_GAS_LIMIT)) {
+      logger.debug(`Opportunity simulation used ${simulation.gasUsed} gas, above MAX_GAS_LIMIT`);
       return false;
     }
 
@@ -241,6 +345,7 @@ export class AutoTrader {
       
       // Update statistics
       this.updateStats(result, Date.now() - startTime);
+      this.recordTrade(opportunity, result, Date.now() - startTime);
       
       // Update risk management
       this.updateRiskManagement(result);
@@ -250,7 +355,9 @@ export class AutoTrader {
       
     } catch (error: any) {
       logger.error('Trade execution failed:', error);
-      this.updateRiskManagement({ success: false, error: error?.message || 'Unknown error' });
+      const result: TradeResult = { success: false, error: error?.message || 'Unknown error' };
+      this.recordTrade(opportunity, result, Date.now() - startTime);
+      this.updateRiskManagement(result);
     }
   }
 
@@ -259,27 +366,52 @@ export class AutoTrader {
     
     if (result.success) {
       this.stats.successfulTrades++;
-      const profit = parseFloat(result.profit || '0');
-      const currentTotal = parseFloat(this.stats.totalProfit);
-      this.stats.totalProfit = (currentTotal + profit).toString();
-      this.stats.averageProfit = (currentTotal / this.stats.successfulTrades).toString();
     } else {
       this.stats.failedTrades++;
     }
 
+    // Realised from the receipt, a reverted trade's is the gas it burned
+    const profit = parseFloat(result.profit || '0');
+    const totalProfit = parseFloat(this.stats.totalProfit) + profit;
+    this.stats.totalProfit = totalProfit.toString();
+    this.stats.averageProfit = (totalProfit / this.stats.totalTrades).toString();
+
+    if (result.realised) {
+      this.stats.totalGasCost = (parseFloat(this.stats.totalGasCost) + parseFloat(result.realised.gasCost)).toString();
+    }
+
     this.stats.uptime = Date.now() - this.stats.startTime;
     
     logger.info(`Trade stats: ${this.stats.successfulTrades}/${this.stats.totalTrades} successful`);
   }
 
+  private recordTrade(opportunity: ArbitrageOpportunity, result: TradeResult, executionTime: number): void {
+    this.tradeHistory.push({
+      opportunityId: opportunity.id,
+      timestamp: Date.now(),
+      executionTime,
+      success: result.success,
+      txHash: result.txHash,
+      expectedProfit: opportunity.expectedProfit,
+      profitCurrency: opportunity.profitCurrency,
+      realised: result.realised,
+      error: result.error
+    });
+
+    if (this.tradeHistory.length > this.MAX_TRADE_HISTORY) {
+      this.tradeHistory.splice(0, this.tradeHistory.length - this.MAX_TRADE_HISTORY);
+    }
+  }
+
   private updateRiskManagement(result: TradeResult): void {
     this.risk.lastTradeTime = Date.now();
     this.risk.dailyTradeCount++;
 
+    // Reverted trades lose their gas, so they count against the day too
+    this.risk.dailyProfit += parseFloat(result.profit || '0');
+
     if (result.success) {
       this.risk.consecutiveFailures = 0;
-      const profit = parseFloat(result.profit || '0');
-      this.risk.dailyProfit += profit;
     } else {
       this.risk.consecutiveFailures++;
     }
@@ -295,6 +427,21 @@ export class AutoTrader {
     return { ...this.risk };
   }
 
+  // Most recent trades last
+  public getTradeHistory(limit: number = this.MAX_TRADE_HISTORY): TradeRecord[] {
+    return this.tradeHistory.slice(-limit);
+  }
+
+  // Trades and their replacements with their latest state, most recent last
+  public getTransactions(limit?: number): TrackedTransaction[] {
+    return this.flashLoanExecutor.getTransactionTracker().getTransactions(limit);
+  }
+
+  // Private bundles with their latest state, most recent last, empty when trades use the public mempool
+  public getBundles(limit?: number): TrackedBundle[] {
+    return this.flashLoanExecutor.getBundleSubmitter()?.getBundles(limit) || [];
+  }
+
   public getOpportunities(): ArbitrageOpportunity[] {
     return this.opportunityFinder.getOpportunities();
   }
@@ -314,6 +461,8 @@ export class AutoTrader {
       opportunityFinder: true, // Add health check
       flashLoanExecutor: true, // Add health check
       activeTrades: this.flashLoanExecutor.getActiveTradesCount(),
+      pendingTransactions: this.flashLoanExecutor.getTransactionTracker().getPendingCount(),
+      pendingBundles: this.flashLoanExecutor.getBundleSubmitter()?.getPendingCount() || 0,
       opportunities: this.opportunityFinder.getOpportunities().length
     };
   }
@@ -326,16 +475,13 @@ export class AutoTrader {
 
   // Pause trading (keep monitoring active)
   public pauseTrading(): void {
-    if (this.tradingInterval) {
-      clearInterval(this.tradingInterval);
-      this.tradingInterval = null;
-    }
+    this.stopTradingLoop();
     logger.warn('⏸️  Trading paused (monitoring continues)');
   }
 
   // Resume trading
   public resumeTrading(): void {
-    if (!this.tradingInterval && this.isRunning) {
+    if (!this.opportunityStream && this.isRunning) {
       this.startTradingLoop();
       logger.info('▶️  Trading resumed');
     }
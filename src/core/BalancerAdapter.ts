@@ -0,0 +1,118 @@
+import { ethers } from 'ethers';
+import { MulticallBatcher } from './MulticallBatcher';
+
+export interface BalancerPathHop {
+  poolId: string;
+  tokenIn: string;
+  tokenOut: string;
+}
+
+export interface BalancerSwapStep {
+  poolId: string;
+  assetInIndex: number;
+  assetOutIndex: number;
+  amount: string; // Only the first step has one, later steps swap the previous step's output
+  userData: string;
+}
+
+// A Vault batch swap exactly as quoted, so the executor sends the swap that was priced
+export interface BalancerSwapDescription {
+  kind: number; // 0 = GIVEN_IN
+  swaps: BalancerSwapStep[];
+  assets: string[];
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+}
+
+/**
+ * Quotes Balancer V2 swaps with the Vault's queryBatchSwap, which runs the real swap logic
+ * (weighted and stable invariants, pool fees, amount-dependent impact) and reverts the
+ * state changes. A path of several pools is a single batch swap, quoted in one call.
+ */
+export class BalancerAdapter {
+  private multicall: MulticallBatcher;
+  private vault: string;
+
+  static readonly SWAP_KIND_GIVEN_IN = 0;
+
+  private readonly VAULT_ABI = [
+    'function queryBatchSwap(uint8 kind, tuple(bytes32 poolId, uint256 assetInIndex, uint256 assetOutIndex, uint256 amount, bytes userData)[] swaps, address[] assets, tuple(address sender, bool fromInternalBalance, address recipient, bool toInternalBalance) funds) external returns (int256[] assetDeltas)',
+    'function batchSwap(uint8 kind, tuple(bytes32 poolId, uint256 assetInIndex, uint256 assetOutIndex, uint256 amount, bytes userData)[] swaps, address[] assets, tuple(address sender, bool fromInternalBalance, address recipient, bool toInternalBalance) funds, int256[] limits, uint256 deadline) external payable returns (int256[] assetDeltas)'
+  ];
+
+  private readonly vaultInterface = new ethers.Interface(this.VAULT_ABI);
+
+  constructor(multicall: MulticallBatcher, vault: string) {
+    this.multicall = multicall;
+    this.vault = vault;
+  }
+
+  /**
+   * Quote amountIn along the path, or null when a pool rejects the swap
+   */
+  async quote(path: BalancerPathHop[], amountIn: bigint): Promise<BalancerSwapDescription | null> {
+    if (path.length === 0) return null;
+
+    const description = this.describe(path, amountIn);
+    const funds = { sender: ethers.ZeroAddress, fromInternalBalance: false, recipient: ethers.ZeroAddress, toInternalBalance: false };
+
+    try {
+      const [deltas] = await this.multicall.call(this.vault, this.VAULT_ABI, 'queryBatchSwap', [
+        description.kind, description.swaps, description.assets, funds
+      ]);
+
+      // Deltas are the Vault's view: positive is paid in, negative is paid out
+      const amountOut = -(deltas[description.assets.length - 1] as bigint);
+      if (amountOut <= 0n) return null;
+
+      return { ...description, amountOut: amountOut.toString() };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Vault.batchSwap calldata for a quoted swap, with the output limit at the slippage tolerance
+   */
+  encodeBatchSwap(description: BalancerSwapDescription, account: string, maxSlippage: number, deadline: number): string {
+    const minAmountOut = (BigInt(description.amountOut) * BigInt(Math.round((1 - maxSlippage) * 1_000_000))) / 1_000_000n;
+    const limits = description.assets.map((asset, index) => {
+      if (index === 0) return BigInt(description.amountIn);
+      if (index === description.assets.length - 1) return -minAmountOut;
+      return 0n; // Intermediate tokens must net out
+    });
+
+    return this.vaultInterface.encodeFunctionData('batchSwap', [
+      description.kind,
+      description.swaps,
+      description.assets,
+      { sender: account, fromInternalBalance: false, recipient: account, toInternalBalance: false },
+      limits,
+      deadline
+    ]);
+  }
+
+  // Assets in path order, tokenIn first and tokenOut last, each step pointing into them
+  private describe(path: BalancerPathHop[], amountIn: bigint): BalancerSwapDescription {
+    const assets = [path[0].tokenIn, ...path.map(hop => hop.tokenOut)];
+    const swaps = path.map((hop, index) => ({
+      poolId: hop.poolId,
+      assetInIndex: index,
+      assetOutIndex: index + 1,
+      amount: index === 0 ? amountIn.toString() : '0',
+      userData: '0x'
+    }));
+
+    return {
+      kind: BalancerAdapter.SWAP_KIND_GIVEN_IN,
+      swaps,
+      assets,
+      tokenIn: path[0].tokenIn,
+      tokenOut: path[path.length - 1].tokenOut,
+      amountIn: amountIn.toString(),
+      amountOut: '0'
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+
+// One transaction of an eth_callBundle simulation, error/revert set when it failed
+export interface BundleCallResult {
+  txHash: string;
+  gasUsed: number;
+  error?: string;
+  revert?: string;
+}
+
+export interface BundleSimulation {
+  bundleHash: string;
+  stateBlockNumber: number;
+  totalGasUsed: number;
+  results: BundleCallResult[];
+}
+
+/**
+ * JSON-RPC client for a Flashbots-compatible relay. Every request is signed with the auth key
+ * in X-Flashbots-Signature, which only identifies the searcher to the relay; it holds no funds
+ * and needn't be the trading wallet.
+ */
+export class BundleRelay {
+  readonly url: string;
+  private authSigner: ethers.Signer;
+  private requestId: number = 0;
+
+  private readonly TIMEOUT = 10000;
+
+  constructor(url: string, authSigner: ethers.Signer) {
+    this.url = url;
+    this.authSigner = authSigner;
+  }
+
+  // Header value the relay checks: the auth address and its signature of the body's keccak256
+  static async signBody(body: string, signer: ethers.Signer): Promise<string> {
+    const signature = await signer.signMessage(ethers.id(body));
+    return `${await signer.getAddress()}:${signature}`;
+  }
+
+  // Runs the signed transactions in order on top of `stateBlock`, as if mined in `blockNumber`
+  async callBundle(signedTransactions: string[], blockNumber: number, stateBlock: number): Promise<BundleSimulation> {
+    const result = await this.call('eth_callBundle', [{
+      txs: signedTransactions,
+      blockNumber: ethers.toQuantity(blockNumber),
+      stateBlockNumber: ethers.toQuantity(stateBlock)
+    }]);
+
+    return {
+      bundleHash: result.bundleHash,
+      stateBlockNumber: Number(result.stateBlockNumber),
+      totalGasUsed: Number(result.totalGasUsed),
+      results: (result.results || []).map((call: any): BundleCallResult => ({
+        txHash: call.txHash,
+        gasUsed: Number(call.gasUsed),
+        error: call.error,
+        revert: call.revert
+      }))
+    };
+  }
+
+  // Offers the bundle to builders for `blockNumber` only, one call per target block
+  async sendBundle(signedTransactions: string[], blockNumber: number): Promise<string> {
+    const result = await this.call('eth_sendBundle', [{
+      txs: signedTransactions,
+      blockNumber: ethers.toQuantity(blockNumber)
+    }]);
+    return result.bundleHash;
+  }
+
+  private async call(method: string, params: unknown[]): Promise<any> {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params });
+    const response = await axios.post(this.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Flashbots-Signature': await BundleRelay.signBody(body, this.authSigner)
+      },
+      timeout: this.TIMEOUT,
+      validateStatus: () => true // JSON-RPC errors come back with 4xx statuses too
+    });
+
+    const error = response.data?.error;
+    if (error) throw new Error(`Relay ${method} failed: ${error.message || JSON.stringify(error)}`);
+    if (response.status >= 400 || response.data?.result === undefined) {
+      throw new Error(`Relay ${method} failed: HTTP ${response.status}`);
+    }
+    return response.data.result;
+  }
+}
@@ -0,0 +1,257 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { BOT_CONFIG } from '../config/constants';
+import { NonceManager } from './NonceManager';
+import { BundleRelay } from './BundleRelay';
+
+export type BundleState = 'submitted' | 'included' | 'confirmed' | 'rejected' | 'expired';
+
+export interface TrackedBundle {
+  bundleHash: string | null; // Null when the simulation rejected it before the relay hashed it
+  transactionHash: string;
+  nonce: number;
+  state: BundleState;
+  label?: string; // What the bundle is for, the opportunity id for trades
+  firstBlock: number; // Target blocks, inclusive
+  lastBlock: number;
+  includedBlock?: number;
+  confirmations: number;
+  error?: string; // Why the simulation rejected it
+  updatedAt: number;
+}
+
+// How a bundle ended up, the receipt only set once it is confirmed
+export interface BundleOutcome {
+  bundle: TrackedBundle;
+  receipt: ethers.TransactionReceipt | null;
+}
+
+export interface BundleSubmitterEvents {
+  'bundle:state': (bundle: TrackedBundle, previous: BundleState | null) => void;
+}
+
+export declare interface BundleSubmitter {
+  on<E extends keyof BundleSubmitterEvents>(event: E, listener: BundleSubmitterEvents[E]): this;
+  once<E extends keyof BundleSubmitterEvents>(event: E, listener: BundleSubmitterEvents[E]): this;
+  off<E extends keyof BundleSubmitterEvents>(event: E, listener: BundleSubmitterEvents[E]): this;
+  emit<E extends keyof BundleSubmitterEvents>(event: E, ...args: Parameters<BundleSubmitterEvents[E]>): boolean;
+}
+
+interface PendingBundle {
+  bundle: TrackedBundle;
+  settle: (outcome: BundleOutcome) => void;
+  endTurn: () => void; // Lets the wallet's next bundle be signed
+}
+
+/**
+ * Sends trades as single-transaction bundles through a private relay instead of the public
+ * mempool. The signed transaction is simulated with eth_callBundle first and dropped when it
+ * reverts, so a failed arbitrage costs no gas; otherwise it is offered with eth_sendBundle for
+ * each of the next TARGET_BLOCKS blocks. Bundles are followed block by block until they are
+ * confirmed, or expire once the last target block passes without them. Every state change is
+ * emitted as 'bundle:state'.
+ *
+ * A bundle only carries its own transaction and is simulated on the latest state, so a wallet's
+ * bundles go out one at a time: the next is signed once the previous one is mined, rejected or
+ * expired, when its nonce is either used or free again.
+ */
+export class BundleSubmitter extends EventEmitter {
+  private static turns: WeakMap<NonceManager, Promise<void>> = new WeakMap(); // Per wallet, like the nonce manager
+
+  private signer: ethers.Signer;
+  private provider: ethers.Provider;
+  private nonceManager: NonceManager;
+  private relay: BundleRelay;
+  private pending: Map<string, PendingBundle> = new Map(); // transaction hash -> bundle, until settled
+  private history: TrackedBundle[] = [];
+  private blockListener: ((blockNumber: number) => void) | null = null;
+  private isProcessingBlock: boolean = false;
+  private pendingBlock: number | null = null;
+
+  private readonly MAX_HISTORY = 200;
+
+  constructor(signer: ethers.Signer, nonceManager: NonceManager, relay: BundleRelay) {
+    super();
+    if (!signer.provider) throw new Error('BundleSubmitter needs a signer connected to a provider');
+    this.signer = signer;
+    this.provider = signer.provider;
+    this.nonceManager = nonceManager;
+    this.relay = relay;
+  }
+
+  /**
+   * Sign `request` on the next nonce, simulate it and submit it, after the wallet's previous
+   * bundle has landed. Resolves once the bundle is confirmed, rejected by the simulation or
+   * expired; in the last two cases the nonce is free again and nothing was spent.
+   */
+  async submit(request: ethers.TransactionRequest, label?: string): Promise<BundleOutcome> {
+    const previous = BundleSubmitter.turns.get(this.nonceManager) ?? Promise.resolve();
+    let endTurn!: () => void;
+    const turn = new Promise<void>(resolve => { endTurn = resolve; });
+    BundleSubmitter.turns.set(this.nonceManager, previous.then(() => turn));
+
+    await previous;
+    try {
+      return await this.submitInTurn(request, label, endTurn);
+    } finally {
+      endTurn(); // Already ended once the bundle landed, this covers errors
+    }
+  }
+
+  private async submitInTurn(request: ethers.TransactionRequest, label: string | undefined, endTurn: () => void): Promise<BundleOutcome> {
+    const nonce = await this.nonceManager.next();
+    let signed: string;
+    let blockNumber: number;
+    try {
+      signed = await this.signer.signTransaction(await this.signer.populateTransaction({ ...request, nonce }));
+      blockNumber = await this.provider.getBlockNumber();
+    } catch (error) {
+      this.nonceManager.release(nonce);
+      throw error;
+    }
+
+    const bundle: TrackedBundle = {
+      bundleHash: null,
+      transactionHash: ethers.keccak256(signed),
+      nonce,
+      state: 'submitted',
+      label,
+      firstBlock: blockNumber + 1,
+      lastBlock: blockNumber + BOT_CONFIG.PRIVATE_BUNDLES.TARGET_BLOCKS,
+      confirmations: 0,
+      updatedAt: Date.now()
+    };
+
+    try {
+      const simulation = await this.relay.callBundle([signed], bundle.firstBlock, blockNumber);
+      const failed = simulation.results.find(result => result.error || result.revert);
+      if (failed) {
+        this.nonceManager.release(nonce);
+        Object.assign(bundle, { state: 'rejected', bundleHash: simulation.bundleHash, error: failed.revert || failed.error });
+        this.record(bundle);
+        this.emit('bundle:state', { ...bundle }, null);
+        return { bundle: { ...bundle }, receipt: null };
+      }
+
+      for (let target = bundle.firstBlock; target <= bundle.lastBlock; target++) {
+        bundle.bundleHash = await this.relay.sendBundle([signed], target);
+      }
+    } catch (error) {
+      // The transaction may have reached the relay before it failed, so the nonce stays reserved
+      // until the target blocks pass
+      if (bundle.bundleHash === null) {
+        this.nonceManager.release(nonce);
+        throw error;
+      }
+      logger.warn(`Bundle ${bundle.bundleHash} was only partly submitted:`, error instanceof Error ? error.message : error);
+    }
+
+    this.record(bundle);
+    logger.info(`Bundle ${bundle.bundleHash} submitted for blocks ${bundle.firstBlock}-${bundle.lastBlock}: ${bundle.transactionHash}`);
+    this.emit('bundle:state', { ...bundle }, null);
+
+    const outcome = new Promise<BundleOutcome>(resolve => {
+      this.pending.set(bundle.transactionHash, { bundle, settle: resolve, endTurn });
+    });
+    this.listen();
+    return await outcome;
+  }
+
+  // Recent bundles, most recent last
+  getBundles(limit: number = this.MAX_HISTORY): TrackedBundle[] {
+    return this.history.slice(-limit).map(bundle => ({ ...bundle }));
+  }
+
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  stop(): void {
+    if (this.blockListener) {
+      this.provider.off('block', this.blockListener);
+      this.blockListener = null;
+    }
+  }
+
+  // Blocks are only watched while a bundle is in flight
+  private listen(): void {
+    if (this.blockListener) return;
+    this.blockListener = (blockNumber: number) => { this.onBlock(blockNumber); };
+    this.provider.on('block', this.blockListener);
+  }
+
+  // One block at a time; blocks arriving meanwhile collapse into the latest
+  private async onBlock(blockNumber: number): Promise<void> {
+    if (this.isProcessingBlock) {
+      this.pendingBlock = blockNumber;
+      return;
+    }
+
+    this.isProcessingBlock = true;
+    try {
+      for (const [hash, pending] of Array.from(this.pending)) {
+        try {
+          await this.update(hash, pending, blockNumber);
+        } catch (error) {
+          logger.warn(`Failed to update bundle ${pending.bundle.bundleHash}:`, error);
+        }
+      }
+    } finally {
+      this.isProcessingBlock = false;
+    }
+
+    if (this.pending.size === 0) this.stop();
+
+    if (this.pendingBlock !== null) {
+      const next = this.pendingBlock;
+      this.pendingBlock = null;
+      await this.onBlock(next);
+    }
+  }
+
+  private async update(hash: string, pending: PendingBundle, blockNumber: number): Promise<void> {
+    const { bundle } = pending;
+    const receipt = await this.provider.getTransactionReceipt(hash);
+    if (receipt) {
+      const confirmations = blockNumber - receipt.blockNumber + 1;
+      if (bundle.state === 'submitted') this.setState(bundle, 'included', { includedBlock: receipt.blockNumber, confirmations });
+      else bundle.confirmations = confirmations;
+      pending.endTurn(); // Its nonce is used, the next bundle simulates on top of it
+
+      if (confirmations >= BOT_CONFIG.TRANSACTIONS.CONFIRMATIONS) {
+        this.setState(bundle, 'confirmed', { confirmations });
+        this.settle(hash, pending, receipt);
+      }
+      return;
+    }
+
+    // Reorged out, a later target block may still take it
+    if (bundle.state === 'included') this.setState(bundle, 'submitted', { includedBlock: undefined, confirmations: 0 });
+    if (blockNumber < bundle.lastBlock) return;
+
+    this.setState(bundle, 'expired');
+    const mined = await this.provider.getTransactionCount(await this.signer.getAddress(), 'latest');
+    if (mined <= bundle.nonce) this.nonceManager.release(bundle.nonce);
+    pending.endTurn();
+    this.settle(hash, pending, null);
+  }
+
+  private record(bundle: TrackedBundle): void {
+    this.history.push(bundle);
+    if (this.history.length > this.MAX_HISTORY) {
+      this.history.splice(0, this.history.length - this.MAX_HISTORY);
+    }
+  }
+
+  private setState(bundle: TrackedBundle, state: BundleState, changes: Partial<TrackedBundle> = {}): void {
+    const previous = bundle.state;
+    Object.assign(bundle, changes, { state, updatedAt: Date.now() });
+    this.emit('bundle:state', { ...bundle }, previous);
+  }
+
+  private settle(hash: string, pending: PendingBundle, receipt: ethers.TransactionReceipt | null): void {
+    this.pending.delete(hash);
+    pending.settle({ bundle: { ...pending.bundle }, receipt });
+  }
+}
@@ -0,0 +1,152 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { BOT_CONFIG } from '../config/constants';
+import { MulticallBatcher } from './MulticallBatcher';
+
+export interface CostLeg {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint; // Quoted output, after the pool fee and price impact
+  fee: number; // Pool fee as a fraction, 0.003 = 0.3%
+  spotAmountOut?: bigint; // Output at the pool's mid price, before fee and impact
+  gasUnits?: bigint; // Swap gas when the quote came with an estimate
+}
+
+export interface FlashLoanTerms {
+  provider: string;
+  premium: number; // Fraction of the borrowed amount, 0.0009 = 0.09%
+  gasUnits?: bigint; // Borrow/repay overhead, defaults to FLASH_LOAN_OVERHEAD_GAS
+}
+
+export interface CostBreakdown {
+  grossProfit: bigint; // Route output at mid prices minus input, before any cost
+  dexFees: bigint;
+  priceImpact: bigint;
+  flashLoanFee: bigint;
+  gasCost: bigint;
+  slippageBuffer: bigint;
+  netProfit: bigint;
+  gasUnits: bigint;
+  gasPrice: bigint; // wei per gas
+  flashLoanProvider: string;
+}
+
+// Breakdown as attached to opportunities, formatted in the quote currency
+export interface OpportunityCosts {
+  currency: string;
+  grossProfit: string;
+  dexFees: string;
+  priceImpact: string;
+  flashLoanFee: string;
+  gasCost: string;
+  slippageBuffer: string;
+  netProfit: string;
+  gasUnits: string;
+  gasPriceGwei: string;
+  flashLoanProvider: string;
+}
+
+/**
+ * Net profit of a flash-loan arbitrage route, itemised.
+ * Quoted outputs already have pool fees and price impact taken off, so those are backed
+ * out of each leg to report them; flash premium, gas and the slippage buffer come on top.
+ */
+export class CostModel {
+  private baseFee: bigint | null = null;
+  private priorityFee: bigint = 0n;
+  private legacyGasPrice: bigint | null = null;
+
+  private readonly FLASH_LOAN_OVERHEAD_GAS = 120_000n;
+  private readonly SWAP_GAS = 100_000n; // Constant-product swap, used when a quote has no estimate
+  private readonly PPM = 1_000_000n;
+
+  /**
+   * Pull the current base fee and priority fee so gas is priced as EIP-1559 will charge it
+   */
+  async refreshFeeData(provider: ethers.JsonRpcProvider): Promise<void> {
+    try {
+      const [baseFee, priorityFee] = await Promise.all([
+        MulticallBatcher.forProvider(provider).getBasefee(),
+        provider.send('eth_maxPriorityFeePerGas', []).then((fee: string) => BigInt(fee))
+      ]);
+      this.baseFee = baseFee;
+      this.priorityFee = priorityFee;
+    } catch (error) {
+      // Chains or nodes without EIP-1559 fee data
+      logger.debug('EIP-1559 fee data unavailable, falling back to gas price:', error);
+      const feeData = await provider.getFeeData();
+      this.baseFee = null;
+      this.legacyGasPrice = feeData.gasPrice;
+    }
+  }
+
+  // What a transaction sent now is expected to pay per gas
+  getGasPrice(): bigint {
+    if (this.baseFee !== null) return this.baseFee + this.priorityFee;
+    if (this.legacyGasPrice !== null) return this.legacyGasPrice;
+    return ethers.parseUnits(BOT_CONFIG.GAS_PRICE_GWEI.toString(), 'gwei'); // No fee data fetched yet
+  }
+
+  /**
+   * Cost out borrowing `amountIn` of the route's start token and running `legs`.
+   * All amounts are raw units of the start token: intermediate tokens are valued at the
+   * route's own effective rate, gas through `nativeToToken`. Null if gas can't be priced.
+   */
+  evaluate(amountIn: bigint, legs: CostLeg[], flashLoan: FlashLoanTerms, nativeToToken: (wei: bigint) => bigint | null): CostBreakdown | null {
+    const token = legs[0].tokenIn.toLowerCase();
+    const amountOut = legs[legs.length - 1].amountOut;
+
+    let dexFees = 0n;
+    let priceImpact = 0n;
+    let gasUnits = flashLoan.gasUnits ?? this.FLASH_LOAN_OVERHEAD_GAS;
+
+    for (const leg of legs) {
+      const feePpm = this.toPpm(leg.fee);
+      let fee: bigint;
+      let impact = 0n;
+
+      if (leg.spotAmountOut !== undefined) {
+        fee = (leg.spotAmountOut * feePpm) / this.PPM;
+        impact = leg.spotAmountOut - fee - leg.amountOut;
+        if (impact < 0n) impact = 0n;
+      } else {
+        // Without a mid price only the fee can be backed out of the quote
+        fee = (leg.amountOut * feePpm) / (this.PPM - feePpm);
+      }
+
+      const inStartToken = (amount: bigint) => {
+        if (leg.tokenOut.toLowerCase() === token) return amount;
+        return leg.amountOut > 0n ? (amount * amountIn) / leg.amountOut : 0n;
+      };
+      dexFees += inStartToken(fee);
+      priceImpact += inStartToken(impact);
+      gasUnits += leg.gasUnits ?? this.SWAP_GAS;
+    }
+
+    const gasPrice = this.getGasPrice();
+    const gasCost = nativeToToken(gasUnits * gasPrice);
+    if (gasCost === null) return null;
+
+    const quotedProfit = amountOut - amountIn;
+    const flashLoanFee = (amountIn * this.toPpm(flashLoan.premium)) / this.PPM;
+    const slippageBuffer = (amountOut * BigInt(BOT_CONFIG.COST_MODEL.SLIPPAGE_BUFFER_BPS)) / 10_000n;
+
+    return {
+      grossProfit: quotedProfit + dexFees + priceImpact,
+      dexFees,
+      priceImpact,
+      flashLoanFee,
+      gasCost,
+      slippageBuffer,
+      netProfit: quotedProfit - flashLoanFee - gasCost - slippageBuffer,
+      gasUnits,
+      gasPrice,
+      flashLoanProvider: flashLoan.provider
+    };
+  }
+
+  private toPpm(fraction: number): bigint {
+    return BigInt(Math.round(fraction * Number(this.PPM)));
+  }
+}
@@ -0,0 +1,118 @@
+import { ethers } from 'ethers';
+import { CurveDexConfig } from '../config/constants';
+import { MulticallBatcher } from './MulticallBatcher';
+
+export type CurvePoolType = 'plain' | 'meta' | 'crypto';
+
+export interface CurveQuote {
+  dex: string;
+  pool: string;
+  type: CurvePoolType;
+  underlying: boolean; // Swapped through get_dy_underlying (metapool against base pool coins)
+  i: number;
+  j: number;
+  fee: number; // The pool's current fee as a fraction
+  amountOut: bigint;
+  spotAmountOut: bigint;
+}
+
+interface CurvePoolInfo {
+  type: CurvePoolType;
+}
+
+/**
+ * Quotes Curve pools on-chain with the pools' own get_dy / get_dy_underlying, so results are
+ * swap outputs in raw token units like every other DEX quote. Plain and meta StableSwap pools
+ * index coins as int128, crypto (tricrypto, twocrypto) pools as uint256; the MetaRegistry
+ * resolves coin indices for all of them and says when a pair trades through the underlying coins.
+ */
+export class CurveAdapter {
+  private multicall: MulticallBatcher;
+  private pools: Map<string, CurvePoolInfo | null> = new Map(); // pool -> type, null when not a Curve pool
+
+  // Fees are reported with 10 decimals
+  private static readonly FEE_DENOMINATOR = 10_000_000_000;
+
+  private readonly REGISTRY_ABI = [
+    'function get_coin_indices(address _pool, address _from, address _to) external view returns (int128, int128, bool)',
+    'function is_meta(address _pool) external view returns (bool)'
+  ];
+
+  private readonly STABLE_POOL_ABI = [
+    'function get_dy(int128 i, int128 j, uint256 dx) external view returns (uint256)',
+    'function get_dy_underlying(int128 i, int128 j, uint256 dx) external view returns (uint256)',
+    'function fee() external view returns (uint256)'
+  ];
+
+  private readonly CRYPTO_POOL_ABI = [
+    'function get_dy(uint256 i, uint256 j, uint256 dx) external view returns (uint256)',
+    'function get_dy_underlying(uint256 i, uint256 j, uint256 dx) external view returns (uint256)',
+    'function fee() external view returns (uint256)',
+    'function gamma() external view returns (uint256)'
+  ];
+
+  constructor(multicall: MulticallBatcher) {
+    this.multicall = multicall;
+  }
+
+  /**
+   * Quote tokenIn -> tokenOut through one pool, or null when the pool doesn't trade the pair
+   */
+  async getQuote(dex: CurveDexConfig, pool: string, tokenIn: string, tokenOut: string, amountIn: bigint): Promise<CurveQuote | null> {
+    const info = await this.getPool(dex, pool);
+    if (!info) return null;
+
+    try {
+      const [i, j, underlying] = await this.multicall.call(dex.metaRegistry, this.REGISTRY_ABI, 'get_coin_indices', [pool, tokenIn, tokenOut]);
+      const abi = info.type === 'crypto' ? this.CRYPTO_POOL_ABI : this.STABLE_POOL_ABI;
+      const method = underlying ? 'get_dy_underlying' : 'get_dy';
+
+      // The spot rate is read from a small probe and the fee added back, as Curve has no closed-form mid price
+      const probe = amountIn / 1000n > 0n ? amountIn / 1000n : 1n;
+      const [[amountOut], [probeOut], [fee]] = await Promise.all([
+        this.multicall.call(pool, abi, method, [i, j, amountIn]),
+        this.multicall.call(pool, abi, method, [i, j, probe]),
+        this.multicall.call(pool, abi, 'fee')
+      ]);
+      if (amountOut <= 0n) return null;
+
+      const denominator = BigInt(CurveAdapter.FEE_DENOMINATOR);
+      const spotAmountOut = fee < denominator ? (probeOut * amountIn * denominator) / (probe * (denominator - fee)) : 0n;
+
+      return {
+        dex: `${dex.name} (${info.type}${underlying ? ', underlying' : ''})`,
+        pool,
+        type: info.type,
+        underlying,
+        i: Number(i),
+        j: Number(j),
+        fee: Number(fee) / CurveAdapter.FEE_DENOMINATOR,
+        amountOut,
+        spotAmountOut
+      };
+    } catch {
+      return null; // The registry reverts for coins the pool doesn't hold
+    }
+  }
+
+  // Plain, meta or crypto, null when the registry doesn't know the pool
+  async getPoolType(dex: CurveDexConfig, pool: string): Promise<CurvePoolType | null> {
+    return (await this.getPool(dex, pool))?.type ?? null;
+  }
+
+  // Pool type, detected once: crypto pools expose gamma(), metapools are flagged by the registry
+  private async getPool(dex: CurveDexConfig, pool: string): Promise<CurvePoolInfo | null> {
+    const key = pool.toLowerCase();
+    if (this.pools.has(key)) return this.pools.get(key)!;
+
+    const [isCrypto, isMeta] = await Promise.all([
+      this.multicall.call(pool, this.CRYPTO_POOL_ABI, 'gamma').then(() => true, () => false),
+      this.multicall.call(dex.metaRegistry, this.REGISTRY_ABI, 'is_meta', [pool]).then(([meta]) => meta as boolean, () => null)
+    ]);
+
+    // is_meta reverts for pools the registry doesn't know, which can't be indexed either
+    const info: CurvePoolInfo | null = isMeta === null ? null : { type: isCrypto ? 'crypto' : isMeta ? 'meta' : 'plain' };
+    this.pools.set(key, info);
+    return info;
+  }
+}
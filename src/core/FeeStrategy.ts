@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { BOT_CONFIG } from '../config/constants';
+import { ArbitrageOpportunity } from './OpportunityFinder';
+
+// Fee fields of a transaction, EIP-1559 or legacy
+export interface TransactionFees {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
+
+export interface FeeBid {
+  fees: TransactionFees;
+  baseFee: bigint | null; // Null on chains without EIP-1559
+  budget: bigint | null; // Wei the trade may spend on gas, null when the opportunity carries no priced profit
+  capped: boolean; // GAS_PRICE_GWEI limited the bid
+}
+
+/**
+ * Sets the fees of every trade from what it is expected to make. PROFIT_SHARE of the profit
+ * before gas, converted to wei at the rate the cost model priced its gas, is spread over the
+ * gas limit as maxFeePerGas; whatever the current base fee leaves of it is bid as priority fee,
+ * so a fatter opportunity outbids competitors for the same block. GAS_PRICE_GWEI caps the fee
+ * per gas. Opportunities without a cost breakdown pay the network's going rate, under the cap.
+ */
+export class FeeStrategy {
+  private provider: ethers.JsonRpcProvider;
+
+  constructor(provider: ethers.JsonRpcProvider) {
+    this.provider = provider;
+  }
+
+  // Throws when the trade's budget can't even cover the base fee, it would lose money on gas
+  async getFees(opportunity: ArbitrageOpportunity, gasLimit: bigint): Promise<FeeBid> {
+    const cap = this.getCap();
+    const [block, networkPriority] = await Promise.all([
+      this.provider.getBlock('latest'),
+      this.provider.send('eth_maxPriorityFeePerGas', []).then((fee: string) => BigInt(fee), () => null)
+    ]);
+    const baseFee = block?.baseFeePerGas ?? null;
+    const budget = this.getGasBudget(opportunity);
+
+    if (budget === null) {
+      return await this.getNetworkFees(baseFee, networkPriority, cap);
+    }
+
+    const perGas = budget / gasLimit;
+    const bid = perGas < cap ? perGas : cap;
+    if (baseFee === null) {
+      return { fees: { gasPrice: bid }, baseFee, budget, capped: bid === cap };
+    }
+
+    if (bid <= baseFee) {
+      throw new Error(
+        `Gas budget of ${ethers.formatUnits(bid, 'gwei')} gwei/gas doesn't cover the ` +
+        `${ethers.formatUnits(baseFee, 'gwei')} gwei base fee`
+      );
+    }
+    return {
+      fees: { maxFeePerGas: bid, maxPriorityFeePerGas: bid - baseFee },
+      baseFee,
+      budget,
+      capped: bid === cap
+    };
+  }
+
+  /**
+   * Fees for a replacement: `percent` over the previous transaction's and at least the network's
+   * current ones. Speed-ups stay under the cap, a cancel may exceed it to free the nonce.
+   */
+  async getReplacementFees(previous: TransactionFees, percent: number, cancel: boolean): Promise<TransactionFees> {
+    const network = await this.provider.getFeeData();
+    const cap = cancel ? null : this.getCap();
+    const bump = (value: bigint | undefined, floor: bigint | null) => {
+      let bumped = ((value ?? 0n) * BigInt(100 + percent) + 99n) / 100n;
+      if (floor !== null && floor > bumped) bumped = floor;
+      return cap !== null && bumped > cap ? cap : bumped;
+    };
+
+    if (previous.maxFeePerGas !== undefined) {
+      const maxPriorityFeePerGas = bump(previous.maxPriorityFeePerGas, network.maxPriorityFeePerGas);
+      const maxFeePerGas = bump(previous.maxFeePerGas, network.maxFeePerGas);
+      return { maxFeePerGas: maxFeePerGas > maxPriorityFeePerGas ? maxFeePerGas : maxPriorityFeePerGas, maxPriorityFeePerGas };
+    }
+    return { gasPrice: bump(previous.gasPrice, network.gasPrice) };
+  }
+
+  getCap(): bigint {
+    return ethers.parseUnits(BOT_CONFIG.GAS_PRICE_GWEI.toString(), 'gwei');
+  }
+
+  /**
+   * PROFIT_SHARE of the profit before gas, in wei. The cost model priced gasUnits at gasPrice as
+   * gasCost in the quote currency, which gives the wei per quote unit on the opportunity's chain.
+   */
+  private getGasBudget(opportunity: ArbitrageOpportunity): bigint | null {
+    const costs = opportunity.costs;
+    if (!costs) return null;
+
+    try {
+      const gasCost = ethers.parseUnits(costs.gasCost, 18);
+      const netProfit = ethers.parseUnits(costs.netProfit, 18);
+      if (gasCost <= 0n) return null;
+
+      const gasWei = BigInt(costs.gasUnits) * ethers.parseUnits(costs.gasPriceGwei, 'gwei');
+      const profitWei = ((netProfit + gasCost) * gasWei) / gasCost;
+      const share = BigInt(Math.round(BOT_CONFIG.FEE_STRATEGY.PROFIT_SHARE * 1_000_000));
+      return profitWei > 0n ? (profitWei * share) / 1_000_000n : 0n;
+    } catch (error) {
+      logger.debug(`Could not derive a gas budget for ${opportunity.id}:`, error);
+      return null;
+    }
+  }
+
+  // What the network currently asks, with room for the base fee to double, under the cap
+  private async getNetworkFees(baseFee: bigint | null, networkPriority: bigint | null, cap: bigint): Promise<FeeBid> {
+    if (baseFee === null) {
+      const { gasPrice } = await this.provider.getFeeData();
+      const capped = gasPrice === null || gasPrice > cap;
+      return { fees: { gasPrice: capped ? cap : gasPrice }, baseFee, budget: null, capped };
+    }
+
+    const priority = networkPriority ?? 0n;
+    const wanted = baseFee * 2n + priority;
+    const maxFeePerGas = wanted < cap ? wanted : cap;
+    return {
+      fees: { maxFeePerGas, maxPriorityFeePerGas: priority < maxFeePerGas ? priority : maxFeePerGas },
+      baseFee,
+      budget: null,
+      capped: wanted > cap
+    };
+  }
+}
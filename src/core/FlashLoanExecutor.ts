@@ -1,7 +1,20 @@
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
-import { FLASH_LOAN_PROVIDERS, DEX_CONFIG, BOT_CONFIG } from '../config/constants';
-import { ArbitrageOpportunity } from './OpportunityFinder';
+import { FLASH_LOAN_PROVIDERS, DEX_CONFIG, BOT_CONFIG, CHAIN_DEPLOYMENTS, NETWORK_CONFIG, NetworkName, ARBITRAGE_EXECUTOR_ADDRESSES } from '../config/constants';
+import { ArbitrageHop, ArbitrageOpportunity } from './OpportunityFinder';
+import { tokenRegistry } from './TokenRegistry';
+import { BalancerAdapter } from './BalancerAdapter';
+import { MulticallBatcher } from './MulticallBatcher';
+import { FlashSwapKind, UniswapFlashLender } from './UniswapFlashLender';
+import { RealisedProfit, TradeReceiptParser } from './TradeReceiptParser';
+import { ArbitrageExecutorContract, ExecutorSwapStep } from './ArbitrageExecutorContract';
+import { feeToBps } from '../utils/ammMath';
+import { NonceManager } from './NonceManager';
+import { TransactionTracker } from './TransactionTracker';
+import { FeeStrategy, TransactionFees } from './FeeStrategy';
+import { BundleRelay } from './BundleRelay';
+import { BundleSubmitter, TrackedBundle } from './BundleSubmitter';
+import { TradingSigner } from '../signers/SignerProvider';
 
 export interface FlashLoanParams {
   asset: string;
@@ -15,30 +28,89 @@ export interface TradeResult {
   profit?: string;
   gasUsed?: string;
   error?: string;
+  realised?: RealisedProfit; // Decoded from the receipt, profit is its net USD value
+}
+
+export interface SimulationResult {
+  success: boolean;
+  profit?: string; // Raw asset units initiateFlash returned, set whenever the simulation succeeds
+  gasUsed?: string;
+  revertData?: string;
+  revertReason?: string; // Decoded Error(string), Panic or custom error
+  error?: string;
+}
+
+// A flash loan transaction before it is signed, with what it calls so the result can be decoded
+interface FlashLoanTransaction {
+  request: { to: string; data: string };
+  iface: ethers.Interface;
+  method: string;
+  executor: string; // Contract that receives the loan and runs the route
+  description: string;
 }
 
 export class FlashLoanExecutor {
   private provider: ethers.JsonRpcProvider;
-  private wallet: ethers.Wallet;
+  private signer: TradingSigner;
   private activeTradesCount: number = 0;
+  private multicall: MulticallBatcher;
+  private balancer: BalancerAdapter;
+  private flashLender: UniswapFlashLender;
+  private receiptParser: TradeReceiptParser;
+  private nonceManager: NonceManager;
+  private feeStrategy: FeeStrategy;
+  private transactionTracker: TransactionTracker;
+  private bundleSubmitter: BundleSubmitter | null = null; // Set when trades go through a private relay
 
-  constructor(provider: ethers.JsonRpcProvider, privateKey: string) {
+  // `signer` must be connected to `provider`, see createSignerProvider()
+  constructor(provider: ethers.JsonRpcProvider, signer: TradingSigner) {
     this.provider = provider;
-    this.wallet = new ethers.Wallet(privateKey, provider);
+    this.signer = signer;
+    this.multicall = MulticallBatcher.forProvider(provider);
+    this.balancer = new BalancerAdapter(this.multicall, FLASH_LOAN_PROVIDERS.BALANCER.vaultAddress);
+    this.flashLender = new UniswapFlashLender(this.multicall);
+    this.receiptParser = new TradeReceiptParser(provider);
+    this.nonceManager = NonceManager.forWallet(provider, this.signer.address);
+    this.feeStrategy = new FeeStrategy(provider);
+    this.transactionTracker = new TransactionTracker(this.signer, this.nonceManager, this.feeStrategy);
+
+    const { ENABLED, RELAY_URL, AUTH_KEY } = BOT_CONFIG.PRIVATE_BUNDLES;
+    if (ENABLED) {
+      const authSigner = AUTH_KEY ? new ethers.Wallet(AUTH_KEY) : ethers.Wallet.createRandom();
+      this.bundleSubmitter = new BundleSubmitter(this.signer, this.nonceManager, new BundleRelay(RELAY_URL, authSigner));
+    }
   }
 
+  // Errors meaning the node refused a transaction outright, so its nonce is still free
+  private readonly REFUSED_SEND_ERRORS: ethers.ErrorCode[] = ['INSUFFICIENT_FUNDS', 'CALL_EXCEPTION'];
+
   // AAVE Flash Loan Contract ABI (simplified)
   private readonly AAVE_POOL_ABI = [
     'function flashLoan(address receiverAddress, address[] calldata assets, uint256[] calldata amounts, uint256[] calldata modes, address onBehalfOf, bytes calldata params, uint16 referralCode) external',
     'function flashLoanSimple(address receiverAddress, address asset, uint256 amount, bytes calldata params, uint16 referralCode) external'
   ];
 
-  // Arbitrage Contract ABI (this would be your custom contract)
-  private readonly ARBITRAGE_CONTRACT_ABI = [
-    'function executeArbitrage(address tokenA, address tokenB, uint256 amountIn, address dexA, address dexB, bytes calldata swapData) external payable returns (uint256 profit)',
-    'function flashLoanCallback(address asset, uint256 amount, uint256 premium, bytes calldata params) external returns (bool)'
+  // Balancer V2 Vault - lends any of its tokens and calls receiveFlashLoan on the recipient
+  private readonly BALANCER_VAULT_ABI = [
+    'function flashLoan(address recipient, address[] tokens, uint256[] amounts, bytes userData) external'
+  ];
+
+  // Pool lookups for route steps that weren't quoted with their pool address
+  private readonly V2_FACTORY_ABI = [
+    'function getPair(address tokenA, address tokenB) external view returns (address pair)'
+  ];
+
+  private readonly V3_FACTORY_ABI = [
+    'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)'
   ];
 
+  private readonly SOLIDLY_FACTORY_ABI = [
+    'function getPool(address tokenA, address tokenB, bool stable) external view returns (address pool)'
+  ];
+
+  private readonly aavePool = new ethers.Interface(this.AAVE_POOL_ABI);
+  private readonly balancerVault = new ethers.Interface(this.BALANCER_VAULT_ABI);
+
   async executeArbitrage(opportunity: ArbitrageOpportunity): Promise<TradeResult> {
     if (this.activeTradesCount >= BOT_CONFIG.MAX_CONCURRENT_TRADES) {
       logger.warn('Maximum concurrent trades reached, skipping opportunity');
@@ -51,7 +123,11 @@ export class FlashLoanExecutor {
     try {
       // Choose best flash loan provider
       const provider = this.chooseBestFlashLoanProvider(opportunity);
-      logger.info(`Using flash loan provider: ${provider.name}`);
+      const asset = await tokenRegistry.resolve(opportunity.tokenA, this.provider);
+      logger.info(
+        `Using flash loan provider: ${provider.name} for ` +
+        `${ethers.formatUnits(opportunity.amountIn, asset.decimals)} ${asset.symbol}`
+      );
 
       // Execute flash loan
       const result = await this.executeFlashLoan(provider, opportunity);
@@ -80,29 +156,87 @@ export class FlashLoanExecutor {
   }
 
   private chooseBestFlashLoanProvider(opportunity: ArbitrageOpportunity): any {
-    // For simplicity, choose AAVE (lowest fee for most cases)
-    // In production, you'd want to calculate which provider gives best net profit
-    return FLASH_LOAN_PROVIDERS.AAVE;
+    // The finder already costed out every provider for this asset and amount, its pick is the most profitable
+    const chosen = Object.values(FLASH_LOAN_PROVIDERS).find(provider => provider.name === opportunity.costs?.flashLoanProvider);
+    if (chosen) {
+      for (const rejection of opportunity.flashLoanRejections || []) {
+        logger.debug(`Flash loan provider ${rejection.provider} passed over: ${rejection.reason}`);
+      }
+      return chosen;
+    }
+
+    // Opportunities priced outside the cost model carry no choice
+    const pinned = BOT_CONFIG.COST_MODEL.FLASH_LOAN_PROVIDER;
+    return pinned ? FLASH_LOAN_PROVIDERS[pinned] : FLASH_LOAN_PROVIDERS.AAVE;
   }
 
   private async executeFlashLoan(provider: any, opportunity: ArbitrageOpportunity): Promise<TradeResult> {
+    const transaction = await this.buildFlashLoanTransaction(provider, this.prepareFlashLoanParams(opportunity));
+
     try {
-      // Get current gas price
-      const gasPrice = await this.provider.getFeeData();
-      
-      // Prepare flash loan parameters
-      const flashLoanParams = this.prepareFlashLoanParams(opportunity);
-      
-      if (provider.name === 'AAVE') {
-        return await this.executeAAVEFlashLoan(flashLoanParams, gasPrice);
-      } else if (provider.name === 'Balancer') {
-        return await this.executeBalancerFlashLoan(flashLoanParams, gasPrice);
-      } else if (provider.name === 'dYdX') {
-        return await this.executeDyDxFlashLoan(flashLoanParams, gasPrice);
-      }
+      const { gasLimit } = await this.estimateFlashLoanGas(transaction.request);
+      const bid = await this.feeStrategy.getFees(opportunity, gasLimit);
+      const request = { ...transaction.request, gasLimit, ...bid.fees };
+      if (this.bundleSubmitter) return await this.executeAsBundle(this.bundleSubmitter, request, transaction, opportunity);
+
+      const tx = await this.sendWithNonce(request);
+      logger.info(
+        `${transaction.description} sent: ${tx.hash} (nonce ${tx.nonce}, ` +
+        `${ethers.formatUnits(bid.fees.maxFeePerGas ?? bid.fees.gasPrice ?? 0n, 'gwei')} gwei${bid.capped ? ', capped' : ''})`
+      );
 
-      throw new Error('Unsupported flash loan provider');
+      await this.transactionTracker.track(tx, request, opportunity.id);
+      return await this.waitForTrade(tx, transaction, opportunity);
     } catch (error) {
+      logger.error(`${transaction.description} failed:`, error);
+      throw error;
+    }
+  }
+
+  // A rejected or expired bundle never reached the chain, so it cost nothing
+  private async executeAsBundle(
+    submitter: BundleSubmitter,
+    request: ethers.TransactionRequest,
+    transaction: FlashLoanTransaction,
+    opportunity: ArbitrageOpportunity
+  ): Promise<TradeResult> {
+    const { bundle, receipt } = await submitter.submit(request, opportunity.id);
+    if (!receipt) {
+      return { success: false, txHash: bundle.transactionHash, error: this.describeUnincludedBundle(bundle) };
+    }
+    return await this.settleTrade(receipt, bundle.transactionHash, transaction, opportunity, false);
+  }
+
+  private describeUnincludedBundle(bundle: TrackedBundle): string {
+    if (bundle.state === 'expired') return `Bundle not included in blocks ${bundle.firstBlock}-${bundle.lastBlock}`;
+
+    const reason = bundle.error && ethers.isHexString(bundle.error) && bundle.error.length > 2 ? this.decodeRevert(bundle.error) : bundle.error;
+    return `Bundle simulation failed: ${reason || 'reverted'}`;
+  }
+
+  /**
+   * Send on a nonce from the wallet's manager. The nonce is handed back when the transaction
+   * never left this process or the node definitely refused it; after any other error (a timeout,
+   * a dropped connection) the node may have taken it, so the manager resyncs instead.
+   */
+  private async sendWithNonce(request: ethers.TransactionRequest): Promise<ethers.TransactionResponse> {
+    const nonce = await this.nonceManager.next();
+    let signed: string;
+    try {
+      signed = await this.signer.signTransaction(await this.signer.populateTransaction({ ...request, nonce }));
+    } catch (error) {
+      this.nonceManager.release(nonce);
+      throw error;
+    }
+
+    try {
+      return await this.provider.broadcastTransaction(signed);
+    } catch (error) {
+      if (this.REFUSED_SEND_ERRORS.some(code => ethers.isError(error, code))) {
+        this.nonceManager.release(nonce);
+      } else {
+        await this.nonceManager.resync(); // Also catches up when something else sent from this wallet
+      }
       throw error;
     }
   }
@@ -115,104 +249,332 @@ export class FlashLoanExecutor {
     };
   }
 
-  private async executeAAVEFlashLoan(params: FlashLoanParams, gasPrice: any): Promise<TradeResult> {
-    try {
-      // Connect to AAVE Pool contract
-      const aavePool = new ethers.Contract(
-        FLASH_LOAN_PROVIDERS.AAVE.poolAddress,
-        this.AAVE_POOL_ABI,
-        this.wallet
-      );
+  /**
+   * The transaction that takes the loan and runs the route, shared by execution and simulation
+   * so what is simulated is exactly what gets sent. Throws when the provider can't lend here.
+   */
+  private async buildFlashLoanTransaction(provider: any, params: FlashLoanParams): Promise<FlashLoanTransaction> {
+    switch (provider.name) {
+      case FLASH_LOAN_PROVIDERS.AAVE.name:
+        return this.buildAAVEFlashLoan(params);
+      case FLASH_LOAN_PROVIDERS.BALANCER.name:
+        return this.buildBalancerFlashLoan(params);
+      case FLASH_LOAN_PROVIDERS.UNISWAP_V3.name:
+        return this.buildUniswapFlashSwap('v3', params);
+      case FLASH_LOAN_PROVIDERS.UNISWAP_V2.name:
+        return this.buildUniswapFlashSwap('v2', params);
+      case FLASH_LOAN_PROVIDERS.DYDX.name:
+        throw new Error('dYdX flash loans not implemented yet');
+      default:
+        throw new Error('Unsupported flash loan provider');
+    }
+  }
 
-      // Encode parameters for the callback
-      const encodedParams = ethers.AbiCoder.defaultAbiCoder().encode(
-        ['address', 'address', 'uint256', 'address', 'address'],
-        [
-          params.opportunity.tokenA,
-          params.opportunity.tokenB,
-          params.amount,
-          params.opportunity.dexA.router,
-          params.opportunity.dexB.router
-        ]
-      );
+  private async buildAAVEFlashLoan(params: FlashLoanParams): Promise<FlashLoanTransaction> {
+    const receiver = this.getReceiver(params.opportunity);
+    const flashCall = this.aavePool.encodeFunctionData('flashLoanSimple', [
+      receiver, params.asset, params.amount, await this.encodeRouteParams(params, receiver), 0 // referralCode 0
+    ]);
 
-      // Execute flash loan
-      const tx = await aavePool.flashLoanSimple(
-        this.wallet.address, // receiverAddress (your arbitrage contract)
-        params.asset,
-        params.amount,
-        encodedParams,
-        0 // referralCode
-      );
+    return this.throughExecutor(receiver, FLASH_LOAN_PROVIDERS.AAVE.poolAddress, flashCall, 'AAVE flash loan');
+  }
 
-      logger.info(`Flash loan transaction sent: ${tx.hash}`);
+  private async buildBalancerFlashLoan(params: FlashLoanParams): Promise<FlashLoanTransaction> {
+    // The Vault only lends to a contract that repays inside receiveFlashLoan
+    const receiver = this.getReceiver(params.opportunity, FLASH_LOAN_PROVIDERS.BALANCER.receiverAddress);
 
-      // Wait for transaction to be mined
-      const receipt = await tx.wait();
-      
-      if (receipt?.status === 1) {
-        const gasUsed = receipt.gasUsed.toString();
-        const profit = await this.calculateActualProfit(receipt);
-        
-        return {
-          success: true,
-          txHash: tx.hash,
-          profit,
-          gasUsed
-        };
-      } else {
-        return {
-          success: false,
-          error: 'Transaction failed'
-        };
-      }
-    } catch (error) {
-      logger.error('AAVE flash loan failed:', error);
-      throw error;
+    // One-token loan, the route travels as userData and comes back in the callback
+    const flashCall = this.balancerVault.encodeFunctionData('flashLoan', [
+      receiver, [params.asset], [params.amount], await this.encodeRouteParams(params, receiver)
+    ]);
+
+    return this.throughExecutor(receiver, FLASH_LOAN_PROVIDERS.BALANCER.vaultAddress, flashCall, 'Balancer flash loan');
+  }
+
+  private async buildUniswapFlashSwap(kind: FlashSwapKind, params: FlashLoanParams): Promise<FlashLoanTransaction> {
+    const config = kind === 'v3' ? FLASH_LOAN_PROVIDERS.UNISWAP_V3 : FLASH_LOAN_PROVIDERS.UNISWAP_V2;
+    const receiver = this.getReceiver(params.opportunity, config.receiverAddress);
+
+    const opportunity = params.opportunity;
+    const routeTokens = opportunity.hops ? opportunity.hops.flatMap(hop => [hop.tokenIn, hop.tokenOut]) : [opportunity.tokenB];
+    const lender = await this.flashLender.findLender(
+      kind, config.factory, params.asset, BigInt(params.amount), this.getPairTokens(opportunity), routeTokens, config.fee
+    );
+    if (!lender) {
+      throw new Error(`No ${config.name} pool can lend ${params.amount} of ${params.asset} outside the route`);
     }
+
+    const routeParams = await this.encodeRouteParams(params, receiver);
+    const description = `${config.name} from ${lender.pool}`;
+
+    // flash() calls back msg.sender and swap() calls uniswapV2Call on `to`, both the receiver,
+    // which repays before the pool checks its balances or k
+    const flashCall = kind === 'v3'
+      ? UniswapFlashLender.encodeV3Flash(lender, params.asset, BigInt(params.amount), receiver, routeParams)
+      : UniswapFlashLender.encodeV2FlashSwap(lender, params.asset, BigInt(params.amount), receiver, routeParams);
+    return this.throughExecutor(receiver, lender.pool, flashCall, description);
   }
 
-  private async executeBalancerFlashLoan(params: FlashLoanParams, gasPrice: any): Promise<TradeResult> {
-    // Balancer flash loan implementation
-    logger.warn('Balancer flash loans not implemented yet');
-    return { success: false, error: 'Not implemented' };
+  // Every loan is taken by the receiver's initiateFlash, which only accepts the callback of the lender it called
+  private throughExecutor(receiver: string, lender: string, flashCall: string, description: string): FlashLoanTransaction {
+    return {
+      request: { to: receiver, data: ArbitrageExecutorContract.encodeInitiateFlash(lender, flashCall) },
+      iface: ArbitrageExecutorContract.INTERFACE,
+      method: 'initiateFlash',
+      executor: receiver,
+      description
+    };
   }
 
-  private async executeDyDxFlashLoan(params: FlashLoanParams, gasPrice: any): Promise<TradeResult> {
-    // dYdX flash loan implementation
-    logger.warn('dYdX flash loans not implemented yet');
-    return { success: false, error: 'Not implemented' };
+  // The provider's own receiver when one is configured, otherwise the chain's arbitrage executor
+  private getReceiver(opportunity: ArbitrageOpportunity, configured?: string): string {
+    if (configured) return configured;
+
+    const network = this.getNetwork(opportunity);
+    const executor = network ? ARBITRAGE_EXECUTOR_ADDRESSES[network] : undefined;
+    if (!executor) {
+      throw new Error(`No arbitrage executor deployed on ${opportunity.chain || 'ethereum'} (ARBITRAGE_EXECUTOR_${network || 'ETHEREUM'})`);
+    }
+    return executor;
   }
 
-  private async calculateActualProfit(receipt: ethers.TransactionReceipt): Promise<string> {
-    // Parse logs to extract actual profit
-    // This is a simplified version - in production, you'd parse specific events
-    const gasUsed = receipt.gasUsed;
-    const gasPrice = receipt.gasPrice;
-    const gasCost = gasUsed * gasPrice;
-    
-    // This would need to be calculated from the actual swap results
-    return '0.01'; // Placeholder
+  private getNetwork(opportunity: ArbitrageOpportunity): NetworkName | undefined {
+    const chain = opportunity.chain || 'ethereum';
+    return (Object.keys(NETWORK_CONFIG) as NetworkName[]).find(name => NETWORK_CONFIG[name].name.toLowerCase() === chain);
+  }
+
+  // Tokens a flash swap pool may pair the borrowed asset with, the chain's scanned tokens
+  private getPairTokens(opportunity: ArbitrageOpportunity): string[] {
+    const chain = opportunity.chain || 'ethereum';
+    const network = this.getNetwork(opportunity);
+    const deployment = network ? CHAIN_DEPLOYMENTS[network] : undefined;
+
+    return (deployment?.tokens || [])
+      .map(symbol => tokenRegistry.getBySymbol(symbol, chain)?.address)
+      .filter((address): address is string => !!address);
+  }
+
+  // Route the receiver executes inside the loan callback, the same for every provider.
+  // The contract only checks the loan is repaid, profit is left to the per-step minimums.
+  private async encodeRouteParams(params: FlashLoanParams, receiver: string): Promise<string> {
+    return ArbitrageExecutorContract.encodeRoute({
+      asset: params.asset,
+      amount: params.amount,
+      minProfit: '0',
+      steps: await this.buildSwapSteps(params.opportunity, receiver)
+    });
+  }
+
+  // Estimate reverts when the route would, so nothing is sent for a trade that can't repay its loan.
+  // Shared by execution and simulation, so both bid on the same limit
+  private async estimateFlashLoanGas(request: FlashLoanTransaction['request']): Promise<{ estimate: bigint; gasLimit: bigint }> {
+    const estimate = await this.signer.estimateGas(request);
+    const gasLimit = (estimate * 120n) / 100n; // 20% headroom for state changes before inclusion
+
+    if (gasLimit > BigInt(BOT_CONFIG.MAX_GAS_LIMIT)) {
+      throw new Error(`Gas limit ${gasLimit} exceeds MAX_GAS_LIMIT ${BOT_CONFIG.MAX_GAS_LIMIT}`);
+    }
+    return { estimate, gasLimit };
+  }
+
+  // Settles once the trade's nonce is confirmed, dropped or taken, whether by the trade, its speed-up or a cancel
+  private async waitForTrade(tx: ethers.TransactionResponse, transaction: FlashLoanTransaction, opportunity: ArbitrageOpportunity): Promise<TradeResult> {
+    const { transaction: settled, receipt } = await this.transactionTracker.wait(tx.hash);
+    if (!receipt) {
+      return { success: false, txHash: settled.hash, error: `Transaction ${settled.state}` };
+    }
+    return await this.settleTrade(receipt, settled.hash, transaction, opportunity, settled.kind === 'cancel');
+  }
+
+  // A reverted or cancelled trade still paid for its gas, so it is costed out as well
+  private async settleTrade(
+    receipt: ethers.TransactionReceipt,
+    hash: string,
+    transaction: FlashLoanTransaction,
+    opportunity: ArbitrageOpportunity,
+    cancelled: boolean
+  ): Promise<TradeResult> {
+    const realised = await this.receiptParser.parse(receipt, transaction.executor, opportunity.chain);
+    if (realised.netUsd === null) {
+      logger.warn(`Could not value the realised profit of ${hash} in USD`);
+    }
+
+    const success = receipt.status === 1 && !cancelled;
+    return {
+      success,
+      txHash: hash,
+      profit: realised.netUsd?.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+      error: success ? undefined : cancelled ? 'Cancelled past its deadline block' : 'Transaction failed',
+      realised
+    };
+  }
+
+  /**
+   * One executor step per hop, swapping against the pool directly. Hops without a quoted pool
+   * are resolved through their DEX's factory; Balancer hops are sent as the batch swap they
+   * were quoted as, with the receiver as the account. Each step must return its quoted output
+   * less MAX_SLIPPAGE.
+   */
+  private async buildSwapSteps(opportunity: ArbitrageOpportunity, receiver: string): Promise<ExecutorSwapStep[]> {
+    const hops: ArbitrageHop[] = opportunity.hops || [
+      { dex: opportunity.dexB.name, router: opportunity.dexB.router, tokenIn: opportunity.tokenA, tokenOut: opportunity.tokenB },
+      { dex: opportunity.dexA.name, router: opportunity.dexA.router, tokenIn: opportunity.tokenB, tokenOut: opportunity.tokenA }
+    ];
+    const network = this.getNetwork(opportunity);
+    const deployment = network ? CHAIN_DEPLOYMENTS[network] : undefined;
+    const deadline = Math.floor(Date.now() / 1000) + 300;
+
+    return Promise.all(hops.map(async (hop): Promise<ExecutorSwapStep> => {
+      const minAmountOut = hop.amountOut
+        ? (BigInt(hop.amountOut) * BigInt(Math.round((1 - BOT_CONFIG.MAX_SLIPPAGE) * 1_000_000))) / 1_000_000n
+        : 0n;
+      const step = {
+        tokenIn: hop.tokenIn,
+        tokenOut: hop.tokenOut,
+        zeroForOne: hop.tokenIn.toLowerCase() < hop.tokenOut.toLowerCase(),
+        minAmountOut: minAmountOut.toString()
+      };
+      const isRouter = (router: string) => router.toLowerCase() === hop.router.toLowerCase();
+
+      if (hop.poolKey) {
+        throw new Error(`${hop.dex} is a Uniswap V4 pool, the arbitrage contract can't swap on V4`);
+      }
+      if (hop.balancerSwap) {
+        const data = this.balancer.encodeBatchSwap(hop.balancerSwap, receiver, BOT_CONFIG.MAX_SLIPPAGE, deadline);
+        return { ...step, dexType: 'BALANCER', pool: hop.router, data };
+      }
+      if (hop.curveSwap) {
+        return { ...step, dexType: 'CURVE', pool: hop.router, data: ArbitrageExecutorContract.encodeCurveData(hop.curveSwap) };
+      }
+
+      const solidly = deployment?.solidly?.find(dex => isRouter(dex.router));
+      if (solidly && hop.stable !== undefined) {
+        const [pool] = await this.multicall.call(solidly.factory, this.SOLIDLY_FACTORY_ABI, 'getPool', [hop.tokenIn, hop.tokenOut, hop.stable]);
+        return { ...step, dexType: 'SOLIDLY', pool: this.requirePool(pool, hop), data: '0x' };
+      }
+
+      const v3 = deployment?.v3.find(dex => isRouter(dex.router));
+      if (v3 && hop.fee !== undefined) {
+        const [pool] = await this.multicall.call(v3.factory, this.V3_FACTORY_ABI, 'getPool', [hop.tokenIn, hop.tokenOut, Math.round(hop.fee * 1_000_000)]);
+        return { ...step, dexType: 'UNISWAP_V3', pool: this.requirePool(pool, hop), data: '0x' };
+      }
+
+      const v2 = deployment?.v2.find(dex => isRouter(dex.router));
+      if (v2) {
+        const [pool] = await this.multicall.call(v2.factory, this.V2_FACTORY_ABI, 'getPair', [hop.tokenIn, hop.tokenOut]);
+        return { ...step, dexType: 'UNISWAP_V2', pool: this.requirePool(pool, hop), data: ArbitrageExecutorContract.encodeV2Data(feeToBps(v2.fee)) };
+      }
+
+      throw new Error(`${hop.dex} swaps can't be executed by the arbitrage contract`);
+    }));
+  }
+
+  private requirePool(pool: string, hop: ArbitrageHop): string {
+    if (pool === ethers.ZeroAddress) {
+      throw new Error(`No ${hop.dex} pool for ${hop.tokenIn} -> ${hop.tokenOut}`);
+    }
+    return pool;
   }
 
-  async simulateArbitrage(opportunity: ArbitrageOpportunity): Promise<boolean> {
+  /**
+   * Run the exact transaction executeArbitrage would send through eth_call against the latest
+   * block. The sender is topped up in the call's state when it couldn't cover the gas, so an
+   * unfunded dry-run wallet still simulates. Reverts come back decoded, not thrown.
+   */
+  async simulateArbitrage(opportunity: ArbitrageOpportunity): Promise<SimulationResult> {
+    logger.debug(`Simulating arbitrage for opportunity ${opportunity.id}`);
+
+    let transaction: FlashLoanTransaction;
     try {
-      logger.debug(`Simulating arbitrage for opportunity ${opportunity.id}`);
-      
-      // Simulate the trade without actually executing
-      // This involves calling the contract with callStatic
-      
-      // For now, return true if profit is above threshold
-      const profitThreshold = BOT_CONFIG.MIN_PROFIT_THRESHOLD;
-      return opportunity.profitPercentage >= profitThreshold * 100;
+      transaction = await this.buildFlashLoanTransaction(this.chooseBestFlashLoanProvider(opportunity), this.prepareFlashLoanParams(opportunity));
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    // A revert of the estimate or the call, with the contract's reason when it gave one
+    const reverted = (error: unknown): SimulationResult => {
+      const revertData = this.getRevertData(error);
+      return {
+        success: false,
+        revertData,
+        revertReason: revertData ? this.decodeRevert(revertData) : undefined,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    };
+
+    // Gas limit and fees come out exactly as executeArbitrage would send them, so a bid the base
+    // fee outruns fails here
+    let gas: { estimate: bigint; gasLimit: bigint };
+    let fees: TransactionFees;
+    try {
+      gas = await this.estimateFlashLoanGas(transaction.request);
+      fees = (await this.feeStrategy.getFees(opportunity, gas.gasLimit)).fees;
+    } catch (error) {
+      return reverted(error);
+    }
+
+    const call: Record<string, string> = {
+      from: this.signer.address,
+      to: transaction.request.to,
+      data: transaction.request.data,
+      gas: ethers.toQuantity(gas.gasLimit)
+    };
+    if (fees.maxFeePerGas !== undefined && fees.maxPriorityFeePerGas !== undefined) {
+      call.maxFeePerGas = ethers.toQuantity(fees.maxFeePerGas);
+      call.maxPriorityFeePerGas = ethers.toQuantity(fees.maxPriorityFeePerGas);
+    } else if (fees.gasPrice !== undefined) {
+      call.gasPrice = ethers.toQuantity(fees.gasPrice);
+    }
+
+    const gasFunds = gas.gasLimit * (fees.maxFeePerGas ?? fees.gasPrice ?? 0n);
+    const balance = await this.provider.getBalance(this.signer.address);
+    const stateOverrides = balance < gasFunds
+      ? { [this.signer.address]: { balance: ethers.toQuantity(gasFunds) } }
+      : undefined;
+
+    let returnData: string;
+    try {
+      returnData = await this.provider.send('eth_call', stateOverrides ? [call, 'latest', stateOverrides] : [call, 'latest']);
     } catch (error) {
-      logger.debug('Simulation failed:', error);
-      return false;
+      return reverted(error);
     }
+
+    // initiateFlash returns the profit, a result that doesn't decode can't be trusted to be one
+    let profit: string;
+    try {
+      profit = (transaction.iface.decodeFunctionResult(transaction.method, returnData)[0] as bigint).toString();
+    } catch {
+      return { success: false, error: `Undecodable ${transaction.method} result ${returnData}` };
+    }
+
+    return { success: true, profit, gasUsed: gas.estimate.toString() };
+  }
+
+  // Revert bytes carried by an eth_call error, wherever the node and ethers put them
+  private getRevertData(error: unknown): string | undefined {
+    const carrier = error as { data?: unknown; info?: { error?: { data?: unknown } }; error?: { data?: unknown } } | null;
+    const candidates = [carrier?.data, carrier?.info?.error?.data, carrier?.error?.data];
+    return candidates.find((data): data is string => typeof data === 'string' && ethers.isHexString(data) && data.length > 2);
+  }
+
+  // Error(string), Panic(uint256) or a custom error of one of the contracts the loan touches
+  private decodeRevert(revertData: string): string {
+    for (const iface of [ArbitrageExecutorContract.INTERFACE, this.aavePool, this.balancerVault]) {
+      try {
+        const parsed = iface.parseError(revertData);
+        if (parsed) {
+          return parsed.args.length > 0 ? `${parsed.name}(${parsed.args.map(arg => arg.toString()).join(', ')})` : parsed.name;
+        }
+      } catch {
+        // Not one of this interface's errors
+      }
+    }
+    return `unknown error ${revertData.slice(0, 10)}`;
   }
 
   async getWalletBalance(): Promise<string> {
-    const balance = await this.provider.getBalance(this.wallet.address);
+    const balance = await this.provider.getBalance(this.signer.address);
     return ethers.formatEther(balance);
   }
 
@@ -229,4 +591,12 @@ export class FlashLoanExecutor {
   getActiveTradesCount(): number {
     return this.activeTradesCount;
   }
+
+  getTransactionTracker(): TransactionTracker {
+    return this.transactionTracker;
+  }
+
+  getBundleSubmitter(): BundleSubmitter | null {
+    return this.bundleSubmitter;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,243 @@
+import { ethers } from 'ethers';
+import { ARBITRAGE_EXECUTOR_ADDRESSES, BOT_CONFIG, FLASH_LOAN_PROVIDERS, NETWORK_CONFIG, NetworkName } from '../config/constants';
+import { CostBreakdown, FlashLoanTerms } from './CostModel';
+import { MulticallBatcher } from './MulticallBatcher';
+import { FlashLender, UniswapFlashLender } from './UniswapFlashLender';
+
+export type FlashLoanProviderKey = keyof typeof FLASH_LOAN_PROVIDERS;
+
+export interface FlashLoanCandidate {
+  provider: FlashLoanProviderKey;
+  name: string;
+  premium: number; // Fraction of the borrowed amount
+  gasUnits: bigint; // Lender overhead plus the receiver's callback work
+  liquidity?: bigint; // What the lender holds of the asset, when it lends from one balance
+  lender?: FlashLender; // Uniswap pool that would lend
+}
+
+export interface FlashLoanRejection {
+  provider: string;
+  reason: string;
+}
+
+export interface FlashLoanSelection {
+  best: { provider: FlashLoanProviderKey; name: string; breakdown: CostBreakdown } | null;
+  rejections: FlashLoanRejection[];
+}
+
+/**
+ * Picks the flash loan provider that leaves a route the most net profit. Each provider is
+ * checked for the asset and amount on this chain: its premium (read on-chain where the
+ * protocol exposes it), what it can lend, and its gas - lender overhead plus callback work.
+ * Providers that can't lend are rejected with the reason, the rest are costed out through
+ * the caller's cost model and ranked by net profit.
+ */
+export class FlashLoanProviderSelector {
+  private multicall: MulticallBatcher;
+  private network: NetworkName;
+  private pairTokens: string[]; // Tokens a flash swap pool may pair the asset with
+  private flashLender: UniswapFlashLender;
+  private premiums: Map<FlashLoanProviderKey, { premium: number; fetchedAt: number }> = new Map();
+  private aaveReserves: Map<string, { aToken: string; flashLoans: boolean; fetchedAt: number }> = new Map(); // asset -> reserve
+  private liquidity: Map<string, { amount: bigint; fetchedAt: number }> = new Map(); // provider:asset -> balance
+
+  private readonly PREMIUM_TTL_MS = 10 * 60 * 1000; // Governance changes premiums rarely
+  private readonly liquidityTtlMs: number; // One block, balances only move with trades
+
+  // Aave V3 reserve configuration bits
+  private readonly AAVE_ACTIVE_BIT = 56n;
+  private readonly AAVE_PAUSED_BIT = 60n;
+  private readonly AAVE_FLASHLOAN_ENABLED_BIT = 63n;
+
+  private readonly AAVE_POOL_ABI = [
+    'function FLASHLOAN_PREMIUM_TOTAL() external view returns (uint128)',
+    'function getReserveData(address asset) external view returns (tuple(tuple(uint256 data) configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))'
+  ];
+
+  private readonly BALANCER_VAULT_ABI = [
+    'function getProtocolFeesCollector() external view returns (address)'
+  ];
+
+  private readonly BALANCER_FEES_COLLECTOR_ABI = [
+    'function getFlashLoanFeePercentage() external view returns (uint256)' // 1e18 = 100%
+  ];
+
+  private readonly ERC20_ABI = [
+    'function balanceOf(address account) external view returns (uint256)'
+  ];
+
+  constructor(multicall: MulticallBatcher, network: NetworkName, pairTokens: string[]) {
+    this.multicall = multicall;
+    this.network = network;
+    this.pairTokens = pairTokens;
+    this.flashLender = new UniswapFlashLender(multicall);
+    this.liquidityTtlMs = NETWORK_CONFIG[network].blockTime;
+  }
+
+  /**
+   * Cost out borrowing `amount` of `asset` from every provider through `evaluate` and keep the
+   * most profitable. `routeTokens` are the tokens the route trades, a flash swap pool can't be one of its pools.
+   */
+  async select(
+    asset: string,
+    amount: bigint,
+    routeTokens: string[],
+    evaluate: (terms: FlashLoanTerms) => CostBreakdown | null
+  ): Promise<FlashLoanSelection> {
+    const pinned = BOT_CONFIG.COST_MODEL.FLASH_LOAN_PROVIDER;
+    const keys = Object.keys(FLASH_LOAN_PROVIDERS) as FlashLoanProviderKey[];
+    const rejections: FlashLoanRejection[] = [];
+
+    const results = await Promise.all(keys.map(async key => {
+      if (pinned && key !== pinned) return { key, reason: `FLASH_LOAN_PROVIDER pins ${pinned}` };
+      try {
+        return await this.getCandidate(key, asset, amount, routeTokens);
+      } catch (error) {
+        return { key, reason: `lookup failed: ${error instanceof Error ? error.message : String(error)}` };
+      }
+    }));
+
+    const priced: { candidate: FlashLoanCandidate; breakdown: CostBreakdown }[] = [];
+    for (const result of results) {
+      if ('reason' in result) {
+        rejections.push({ provider: FLASH_LOAN_PROVIDERS[result.key].name, reason: result.reason });
+        continue;
+      }
+
+      const breakdown = evaluate({ provider: result.name, premium: result.premium, gasUnits: result.gasUnits });
+      if (!breakdown) {
+        rejections.push({ provider: result.name, reason: 'gas could not be priced in the asset' });
+        continue;
+      }
+      priced.push({ candidate: result, breakdown });
+    }
+
+    priced.sort((a, b) => (b.breakdown.netProfit > a.breakdown.netProfit ? 1 : b.breakdown.netProfit < a.breakdown.netProfit ? -1 : 0));
+    const [best, ...rest] = priced;
+
+    for (const { candidate, breakdown } of rest) {
+      rejections.push({
+        provider: candidate.name,
+        reason: `net profit ${breakdown.netProfit} below ${best.breakdown.netProfit} with ${best.candidate.name} ` +
+          `(premium ${breakdown.flashLoanFee}, ${breakdown.gasUnits} gas)`
+      });
+    }
+
+    return {
+      best: best ? { provider: best.candidate.provider, name: best.candidate.name, breakdown: best.breakdown } : null,
+      rejections
+    };
+  }
+
+  // Premium, liquidity and gas of one provider for this loan, or why it can't make it
+  private async getCandidate(
+    key: FlashLoanProviderKey,
+    asset: string,
+    amount: bigint,
+    routeTokens: string[]
+  ): Promise<FlashLoanCandidate | { key: FlashLoanProviderKey; reason: string }> {
+    const config = FLASH_LOAN_PROVIDERS[key];
+    const reject = (reason: string) => ({ key, reason });
+    const candidate = (premium: number, extra: Partial<FlashLoanCandidate> = {}): FlashLoanCandidate => ({
+      provider: key,
+      name: config.name,
+      premium,
+      gasUnits: BigInt(config.gasOverhead + config.callbackGas),
+      ...extra
+    });
+
+    if (!config.networks.includes(this.network)) {
+      return reject(`not deployed on ${NETWORK_CONFIG[this.network].name}`);
+    }
+
+    // Every loan pays out to the arbitrage executor, unless the provider has its own receiver configured
+    const executor = ARBITRAGE_EXECUTOR_ADDRESSES[this.network];
+    if (!executor && !('receiverAddress' in config && config.receiverAddress)) {
+      return reject(`no arbitrage executor deployed (ARBITRAGE_EXECUTOR_${this.network})`);
+    }
+
+    switch (key) {
+      case 'AAVE': {
+        const reserve = await this.getAaveReserve(asset);
+        if (!reserve) return reject('asset is not an Aave reserve');
+        if (!reserve.flashLoans) return reject('reserve is inactive, paused or has flash loans disabled');
+
+        const liquidity = await this.getLiquidity(key, asset, reserve.aToken);
+        if (liquidity < amount) return reject(`reserve holds ${liquidity}, below the ${amount} needed`);
+        return candidate(await this.getPremium(key), { liquidity });
+      }
+
+      case 'BALANCER': {
+        const liquidity = await this.getLiquidity(key, asset, FLASH_LOAN_PROVIDERS.BALANCER.vaultAddress);
+        if (liquidity < amount) return reject(`Vault holds ${liquidity}, below the ${amount} needed`);
+        return candidate(await this.getPremium(key), { liquidity });
+      }
+
+      case 'DYDX':
+        return reject('Solo margin flash loans are not executed by this bot');
+
+      case 'UNISWAP_V3':
+      case 'UNISWAP_V2': {
+        const flash = key === 'UNISWAP_V3' ? FLASH_LOAN_PROVIDERS.UNISWAP_V3 : FLASH_LOAN_PROVIDERS.UNISWAP_V2;
+        const kind = key === 'UNISWAP_V3' ? 'v3' : 'v2';
+        const lender = await this.flashLender.findLender(kind, flash.factory, asset, amount, this.pairTokens, routeTokens, flash.fee);
+        if (!lender) return reject('no pool outside the route can lend the amount');
+        return candidate(flash.fee, { lender });
+      }
+    }
+  }
+
+  // Current premium as a fraction, the configured fee when the protocol doesn't expose it
+  private async getPremium(key: FlashLoanProviderKey): Promise<number> {
+    const cached = this.premiums.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.PREMIUM_TTL_MS) return cached.premium;
+
+    let premium = FLASH_LOAN_PROVIDERS[key].fee;
+    try {
+      if (key === 'AAVE') {
+        const [bps] = await this.multicall.call(FLASH_LOAN_PROVIDERS.AAVE.poolAddress, this.AAVE_POOL_ABI, 'FLASHLOAN_PREMIUM_TOTAL');
+        premium = Number(bps) / 10_000;
+      } else if (key === 'BALANCER') {
+        const [collector] = await this.multicall.call(FLASH_LOAN_PROVIDERS.BALANCER.vaultAddress, this.BALANCER_VAULT_ABI, 'getProtocolFeesCollector');
+        const [percentage] = await this.multicall.call(collector, this.BALANCER_FEES_COLLECTOR_ABI, 'getFlashLoanFeePercentage');
+        premium = Number(ethers.formatUnits(percentage, 18));
+      }
+    } catch {
+      // Keep the configured fee
+    }
+
+    this.premiums.set(key, { premium, fetchedAt: Date.now() });
+    return premium;
+  }
+
+  // The asset's aToken holds the reserve's unborrowed liquidity
+  private async getAaveReserve(asset: string): Promise<{ aToken: string; flashLoans: boolean } | null> {
+    const key = asset.toLowerCase();
+    const cached = this.aaveReserves.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.PREMIUM_TTL_MS) {
+      return cached.aToken === ethers.ZeroAddress ? null : cached;
+    }
+
+    const [reserve] = await this.multicall.call(FLASH_LOAN_PROVIDERS.AAVE.poolAddress, this.AAVE_POOL_ABI, 'getReserveData', [asset]);
+    const configuration = reserve.configuration.data as bigint;
+    const bit = (position: bigint) => ((configuration >> position) & 1n) === 1n;
+    const entry = {
+      aToken: reserve.aTokenAddress as string,
+      flashLoans: bit(this.AAVE_ACTIVE_BIT) && !bit(this.AAVE_PAUSED_BIT) && bit(this.AAVE_FLASHLOAN_ENABLED_BIT),
+      fetchedAt: Date.now()
+    };
+
+    this.aaveReserves.set(key, entry);
+    return entry.aToken === ethers.ZeroAddress ? null : entry;
+  }
+
+  private async getLiquidity(key: FlashLoanProviderKey, asset: string, holder: string): Promise<bigint> {
+    const cacheKey = `${key}:${asset.toLowerCase()}`;
+    const cached = this.liquidity.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < this.liquidityTtlMs) return cached.amount;
+
+    const [amount] = await this.multicall.call(asset, this.ERC20_ABI, 'balanceOf', [holder]);
+    this.liquidity.set(cacheKey, { amount, fetchedAt: Date.now() });
+    return amount;
+  }
+}
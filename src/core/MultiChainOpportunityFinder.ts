@@ -0,0 +1,135 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { BOT_CONFIG, CHAIN_DEPLOYMENTS, NETWORK_CONFIG, NetworkName } from '../config/constants';
+import { ArbitrageOpportunity, OpportunityFinder, OpportunityFinderEvents } from './OpportunityFinder';
+import { MulticallStats } from './MulticallBatcher';
+import { OpportunityEvent, OpportunityStream, OpportunityStreamOptions } from './OpportunityStream';
+
+export declare interface MultiChainOpportunityFinder {
+  on<E extends keyof OpportunityFinderEvents>(event: E, listener: OpportunityFinderEvents[E]): this;
+  once<E extends keyof OpportunityFinderEvents>(event: E, listener: OpportunityFinderEvents[E]): this;
+  off<E extends keyof OpportunityFinderEvents>(event: E, listener: OpportunityFinderEvents[E]): this;
+  emit<E extends keyof OpportunityFinderEvents>(event: E, ...args: Parameters<OpportunityFinderEvents[E]>): boolean;
+}
+
+/**
+ * One OpportunityFinder per configured chain, each with its own provider, DEX deployments,
+ * tokens and scan cadence, merged into a single opportunity view. Opportunities carry the
+ * chain they were found on and their ids are unique across chains.
+ */
+export class MultiChainOpportunityFinder extends EventEmitter {
+  private finders: Map<NetworkName, OpportunityFinder> = new Map();
+  private streams: Set<OpportunityStream> = new Set();
+
+  constructor(networks: NetworkName[] = MultiChainOpportunityFinder.getConfiguredNetworks(), providers: { [network in NetworkName]?: ethers.JsonRpcProvider } = {}) {
+    super();
+
+    for (const network of networks) {
+      const config = NETWORK_CONFIG[network];
+      if (!config || !CHAIN_DEPLOYMENTS[network]) {
+        logger.warn(`No DEX deployments configured for ${network}, not scanning it`);
+        continue;
+      }
+
+      // Polling at the chain's block time keeps 'block' events as frequent as blocks themselves
+      const provider = providers[network] || new ethers.JsonRpcProvider(config.rpcUrl, undefined, { pollingInterval: config.blockTime });
+      const finder = new OpportunityFinder(provider, network);
+
+      finder.on('opportunity:new', opportunity => this.publish({ type: 'opportunity:new', opportunity }));
+      finder.on('opportunity:updated', opportunity => this.publish({ type: 'opportunity:updated', opportunity }));
+      finder.on('opportunity:expired', (opportunity, reason) => this.publish({ type: 'opportunity:expired', opportunity, reason }));
+
+      this.finders.set(network, finder);
+    }
+  }
+
+  // BOT_CONFIG.SCAN_NETWORKS when set, otherwise every chain with DEX deployments
+  static getConfiguredNetworks(): NetworkName[] {
+    if (BOT_CONFIG.SCAN_NETWORKS.length > 0) return BOT_CONFIG.SCAN_NETWORKS;
+    return (Object.keys(CHAIN_DEPLOYMENTS) as NetworkName[]);
+  }
+
+  async startScanning(): Promise<void> {
+    logger.info(`🌐 Scanning ${this.finders.size} chains: ${this.getNetworks().map(network => NETWORK_CONFIG[network].name).join(', ')}`);
+
+    // A chain whose RPC is down must not keep the others from scanning
+    const results = await Promise.allSettled(Array.from(this.finders.values()).map(finder => finder.startScanning()));
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error(`Failed to start scanning ${this.getNetworks()[index]}:`, result.reason);
+      }
+    });
+  }
+
+  async stopScanning(): Promise<void> {
+    await Promise.all(Array.from(this.finders.values()).map(finder => finder.stopScanning()));
+  }
+
+  getNetworks(): NetworkName[] {
+    return Array.from(this.finders.keys());
+  }
+
+  getFinder(network: NetworkName): OpportunityFinder | undefined {
+    return this.finders.get(network);
+  }
+
+  // Top opportunities across every chain, ranked together - profits share the quote currency
+  getOpportunities(): ArbitrageOpportunity[] {
+    return Array.from(this.finders.values())
+      .flatMap(finder => finder.getOpportunities())
+      .sort((a, b) => b.priority - a.priority)
+      .slice(0, 10);
+  }
+
+  // See OpportunityFinder.getBestOpportunity
+  getBestOpportunity(excluded: ReadonlySet<string> = new Set()): ArbitrageOpportunity | null {
+    return Array.from(this.finders.values())
+      .map(finder => finder.getBestOpportunity(excluded))
+      .filter((opportunity): opportunity is ArbitrageOpportunity => opportunity !== null)
+      .sort((a, b) => b.priority - a.priority)[0] ?? null;
+  }
+
+  removeOpportunity(id: string): void {
+    for (const finder of this.finders.values()) {
+      finder.removeOpportunity(id);
+    }
+  }
+
+  /**
+   * Async iterator over opportunity events from every chain, see OpportunityFinder.subscribe
+   */
+  subscribe(options: OpportunityStreamOptions = {}): OpportunityStream {
+    const stream = new OpportunityStream(options, () => this.streams.delete(stream));
+    this.streams.add(stream);
+    return stream;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<OpportunityEvent> {
+    return this.subscribe();
+  }
+
+  private publish(event: OpportunityEvent): void {
+    for (const stream of this.streams) {
+      stream.push(event);
+    }
+
+    try {
+      if (event.type === 'opportunity:expired') {
+        this.emit(event.type, event.opportunity, event.reason!);
+      } else {
+        this.emit(event.type, event.opportunity);
+      }
+    } catch (error) {
+      logger.error(`Error in ${event.type} listener:`, error);
+    }
+  }
+
+  getMulticallStats(): { [network: string]: MulticallStats } {
+    const stats: { [network: string]: MulticallStats } = {};
+    for (const [network, finder] of this.finders) {
+      stats[network] = finder.getMulticallStats();
+    }
+    return stats;
+  }
+}
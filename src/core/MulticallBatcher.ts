@@ -0,0 +1,158 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { MULTICALL3_ADDRESS } from '../config/constants';
+
+interface PendingCall {
+  target: string;
+  iface: ethers.Interface;
+  fragment: ethers.FunctionFragment;
+  callData: string;
+  resolve: (result: ethers.Result) => void;
+  reject: (error: Error) => void;
+}
+
+export interface MulticallStats {
+  calls: number; // reads that went through the batcher
+  batches: number; // aggregate3 round-trips actually sent
+  failedCalls: number; // individual reads that reverted or could not be decoded
+  roundTripsSaved: number;
+}
+
+/**
+ * Groups contract reads issued in the same tick into a single Multicall3 aggregate3 eth_call.
+ * Every call is sent with allowFailure, so one reverting read only rejects its own promise.
+ * Use MulticallBatcher.forProvider() so all readers on a provider share one queue.
+ */
+export class MulticallBatcher {
+  private static instances: WeakMap<ethers.Provider, MulticallBatcher> = new WeakMap();
+
+  private address: string;
+  private multicall: ethers.Contract;
+  private queue: PendingCall[] = [];
+  private flushScheduled: boolean = false;
+  private interfaces: WeakMap<object, ethers.Interface> = new WeakMap();
+  private stats = { calls: 0, batches: 0, failedCalls: 0 };
+
+  // Keeps each aggregate3 well inside node eth_call gas caps, even for quoter calls
+  private readonly MAX_BATCH_SIZE = 100;
+
+  private readonly MULTICALL3_ABI = [
+    'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) external payable returns (tuple(bool success, bytes returnData)[] returnData)',
+    'function getBlockNumber() external view returns (uint256 blockNumber)',
+    'function getBasefee() external view returns (uint256 basefee)',
+    'function getCurrentBlockTimestamp() external view returns (uint256 timestamp)'
+  ];
+
+  constructor(provider: ethers.Provider, address: string = MULTICALL3_ADDRESS) {
+    this.address = address;
+    this.multicall = new ethers.Contract(address, this.MULTICALL3_ABI, provider);
+  }
+
+  static forProvider(provider: ethers.Provider): MulticallBatcher {
+    let batcher = MulticallBatcher.instances.get(provider);
+    if (!batcher) {
+      batcher = new MulticallBatcher(provider);
+      MulticallBatcher.instances.set(provider, batcher);
+    }
+    return batcher;
+  }
+
+  /**
+   * Queue a read and resolve with its decoded result once the batch returns
+   */
+  call(target: string, abi: ethers.InterfaceAbi, method: string, args: any[] = []): Promise<ethers.Result> {
+    return new Promise((resolve, reject) => {
+      const iface = this.getInterface(abi);
+      const fragment = iface.getFunction(method);
+      if (!fragment) {
+        throw new Error(`Function ${method} not found in ABI`);
+      }
+
+      const callData = iface.encodeFunctionData(fragment, args);
+      this.queue.push({ target, iface, fragment, callData, resolve, reject });
+      this.scheduleFlush();
+    });
+  }
+
+  // Block values read through Multicall3 itself, so they share the round-trip with other reads
+  async getBlockNumber(): Promise<number> {
+    const [blockNumber] = await this.call(this.address, this.MULTICALL3_ABI, 'getBlockNumber');
+    return Number(blockNumber);
+  }
+
+  async getBasefee(): Promise<bigint> {
+    const [basefee] = await this.call(this.address, this.MULTICALL3_ABI, 'getBasefee');
+    return basefee;
+  }
+
+  getStats(): MulticallStats {
+    return {
+      ...this.stats,
+      roundTripsSaved: this.stats.calls - this.stats.batches
+    };
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushScheduled) return;
+    this.flushScheduled = true;
+
+    // setImmediate runs after all pending promise callbacks, so every read issued this tick joins the batch
+    setImmediate(() => {
+      this.flushScheduled = false;
+      this.flush();
+    });
+  }
+
+  private flush(): void {
+    const calls = this.queue;
+    this.queue = [];
+
+    for (let i = 0; i < calls.length; i += this.MAX_BATCH_SIZE) {
+      this.executeBatch(calls.slice(i, i + this.MAX_BATCH_SIZE));
+    }
+  }
+
+  private async executeBatch(batch: PendingCall[]): Promise<void> {
+    this.stats.batches++;
+    this.stats.calls += batch.length;
+
+    let results: ethers.Result;
+    try {
+      results = await this.multicall.aggregate3.staticCall(
+        batch.map(call => ({ target: call.target, allowFailure: true, callData: call.callData }))
+      );
+    } catch (error) {
+      // The aggregate itself failed (RPC error, no Multicall3 on this chain) - every caller sees it
+      logger.debug(`Multicall batch of ${batch.length} calls failed:`, error);
+      for (const call of batch) {
+        call.reject(error as Error);
+      }
+      return;
+    }
+
+    batch.forEach((call, index) => {
+      const [success, returnData] = results[index];
+
+      try {
+        if (!success) {
+          throw call.iface.makeError(returnData, { to: call.target, data: call.callData });
+        }
+        call.resolve(call.iface.decodeFunctionResult(call.fragment, returnData));
+      } catch (error) {
+        this.stats.failedCalls++;
+        call.reject(error as Error);
+      }
+    });
+  }
+
+  private getInterface(abi: ethers.InterfaceAbi): ethers.Interface {
+    // ABIs are module constants, so caching by reference avoids re-parsing them on every call
+    if (typeof abi === 'string') return new ethers.Interface(abi);
+    let iface = this.interfaces.get(abi);
+    if (!iface) {
+      iface = new ethers.Interface(abi);
+      this.interfaces.set(abi, iface);
+    }
+    return iface;
+  }
+}
@@ -0,0 +1,88 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+
+/**
+ * Hands out nonces for one wallet on one chain, so concurrent trades never pick the same one.
+ * The first nonce comes from the node's pending count, later ones are counted locally. Nonces
+ * of transactions that never reached the node are released and handed out again first, so no
+ * gap is left behind them. Use NonceManager.forWallet() so every sender on a provider shares one.
+ */
+export class NonceManager {
+  private static instances: WeakMap<ethers.Provider, Map<string, NonceManager>> = new WeakMap();
+
+  private provider: ethers.Provider;
+  private address: string;
+  private nextNonce: number | null = null;
+  private released: number[] = []; // Ascending, reused before nextNonce
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(provider: ethers.Provider, address: string) {
+    this.provider = provider;
+    this.address = address;
+  }
+
+  static forWallet(provider: ethers.Provider, address: string): NonceManager {
+    let wallets = NonceManager.instances.get(provider);
+    if (!wallets) {
+      wallets = new Map();
+      NonceManager.instances.set(provider, wallets);
+    }
+
+    const key = address.toLowerCase();
+    let manager = wallets.get(key);
+    if (!manager) {
+      manager = new NonceManager(provider, address);
+      wallets.set(key, manager);
+    }
+    return manager;
+  }
+
+  // Reserve the next nonce, callers must send with it or release() it
+  next(): Promise<number> {
+    return this.exclusive(async () => {
+      if (this.released.length > 0) return this.released.shift()!;
+
+      if (this.nextNonce === null) {
+        this.nextNonce = await this.provider.getTransactionCount(this.address, 'pending');
+      }
+      return this.nextNonce++;
+    });
+  }
+
+  // Give back a nonce whose transaction was never accepted by the node
+  release(nonce: number): void {
+    if (this.nextNonce !== null && nonce === this.nextNonce - 1) {
+      this.nextNonce--;
+      return;
+    }
+    if (!this.released.includes(nonce)) {
+      this.released.push(nonce);
+      this.released.sort((a, b) => a - b);
+    }
+  }
+
+  /**
+   * Catch up with the node after a "nonce too low" error: the count only moves forward, since
+   * nonces still queued behind a gap aren't in the node's pending count. Released nonces the
+   * chain has since mined are discarded.
+   */
+  resync(): Promise<void> {
+    return this.exclusive(async () => {
+      const [latest, pending] = await Promise.all([
+        this.provider.getTransactionCount(this.address, 'latest'),
+        this.provider.getTransactionCount(this.address, 'pending')
+      ]);
+      const next = Math.max(pending, this.nextNonce ?? 0);
+      logger.debug(`Nonce for ${this.address} resynced to ${next} (was ${this.nextNonce})`);
+      this.nextNonce = next;
+      this.released = this.released.filter(nonce => nonce >= latest);
+    });
+  }
+
+  // Runs one nonce operation at a time
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(operation);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
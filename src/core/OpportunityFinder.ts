@@ -1,6 +1,33 @@
+import { EventEmitter } from 'events';
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
-import { DEX_CONFIG, TOKENS, BOT_CONFIG } from '../config/constants';
+import { BOT_CONFIG, CHAIN_DEPLOYMENTS, ChainDeployment, NETWORK_CONFIG, NetworkName, QUOTE_CURRENCY_TOKENS, SolidlyDexConfig, V2DexConfig, V3DexConfig, V4DexConfig } from '../config/constants';
+import { ArbitrageGraph, ArbitrageCycle } from './ArbitrageGraph';
+import { tokenRegistry } from './TokenRegistry';
+import { PoolStateCache } from './PoolStateCache';
+import { MulticallBatcher, MulticallStats } from './MulticallBatcher';
+import { PairDiscovery } from './PairDiscovery';
+import { SolidlyAdapter } from './SolidlyAdapter';
+import { PoolKey, UniswapV4Adapter, V4HookFlags } from './UniswapV4Adapter';
+import { BalancerSwapDescription } from './BalancerAdapter';
+import { CurveSwapParams } from './ArbitrageExecutorContract';
+import { CostModel, CostLeg, CostBreakdown, OpportunityCosts } from './CostModel';
+import { FlashLoanProviderSelector, FlashLoanRejection } from './FlashLoanProviderSelector';
+import { OpportunityEvent, OpportunityExpiryReason, OpportunityStream, OpportunityStreamOptions } from './OpportunityStream';
+import { ConstantProductPool, feeToBps, getAmountOut, getSpotAmountOut, getV3SpotAmountOut, getOptimalCycleInput, getCycleAmountOut } from '../utils/ammMath';
+
+export interface ArbitrageHop {
+  dex: string;
+  router: string;
+  tokenIn: string;
+  tokenOut: string;
+  fee?: number;
+  stable?: boolean; // Solidly pool type, the router needs it to route the swap
+  poolKey?: PoolKey; // Uniswap V4 pool the hop was quoted on, the executor contract can't swap these
+  amountOut?: string; // Quoted output of this hop at the route's size, raw units
+  curveSwap?: CurveSwapParams; // Coin indices of a Curve pool hop
+  balancerSwap?: BalancerSwapDescription; // Vault batch swap this hop was quoted as, sent unchanged
+}
 
 export interface ArbitrageOpportunity {
   id: string;
@@ -20,25 +47,124 @@ export interface ArbitrageOpportunity {
     priceB: string;
   };
   gasEstimate: string;
+  profitCurrency?: string; // Currency expectedProfit is expressed in (ETH or USD)
   timestamp: number;
   priority: number;
   type?: string; // Optional type field for cross-chain vs single-chain
-  chain?: string; // Optional chain identifier
+  chain?: string; // Chain the route trades on, the token registry's chain key
+  hops?: ArbitrageHop[]; // Ordered swap route, starting and ending in tokenA
+  firstSeen?: number; // First detection of this route, ms
+  lastSeen?: number; // Latest re-detection, ms
+  seenCount?: number; // Scans that detected it
+  blockNumber?: number; // Block of the latest detection, drives expiry
+  costs?: OpportunityCosts; // Itemised cost model behind expectedProfit
+  flashLoanRejections?: FlashLoanRejection[]; // Why the other flash loan providers weren't chosen
 }
 
-export class OpportunityFinder {
+interface PairQuotes {
+  tokenA: string;
+  tokenB: string;
+  amountInA: bigint;
+  amountInB: bigint;
+  forward: any[]; // tokenA -> tokenB quotes
+  reverse: any[]; // tokenB -> tokenA quotes
+}
+
+export interface OpportunityFinderEvents {
+  'opportunity:new': (opportunity: ArbitrageOpportunity) => void;
+  'opportunity:updated': (opportunity: ArbitrageOpportunity) => void;
+  'opportunity:expired': (opportunity: ArbitrageOpportunity, reason: OpportunityExpiryReason) => void;
+}
+
+export declare interface OpportunityFinder {
+  on<E extends keyof OpportunityFinderEvents>(event: E, listener: OpportunityFinderEvents[E]): this;
+  once<E extends keyof OpportunityFinderEvents>(event: E, listener: OpportunityFinderEvents[E]): this;
+  off<E extends keyof OpportunityFinderEvents>(event: E, listener: OpportunityFinderEvents[E]): this;
+  emit<E extends keyof OpportunityFinderEvents>(event: E, ...args: Parameters<OpportunityFinderEvents[E]>): boolean;
+}
+
+export class OpportunityFinder extends EventEmitter {
   private provider: ethers.JsonRpcProvider;
+  private network: NetworkName;
+  private chain: string; // Token registry key, the lowercased network name
+  private deployment: ChainDeployment;
+  private tokens: string[]; // Addresses of the deployment's scan tokens
+  private scanInterval: number;
   private opportunities: Map<string, ArbitrageOpportunity> = new Map();
+  private streams: Set<OpportunityStream> = new Set();
+  private pairAddresses: Map<string, string> = new Map(); // factory:tokenA:tokenB -> pair
+  private v3PoolAddresses: Map<string, string> = new Map(); // factory:tokenA:tokenB:fee -> pool
+  private quoteRates: Map<string, { amountIn: bigint; amountOut: bigint }> = new Map(); // token -> quote token rate
+  private pairQuotes: Map<string, PairQuotes> = new Map(); // latest quotes per token pair
+  private detectedThisScan: Set<string> = new Set(); // opportunity ids re-detected by the running scan
+  private currentBlock: number = 0;
+  private poolCache: PoolStateCache = new PoolStateCache();
+  private multicall: MulticallBatcher;
+  private solidly: SolidlyAdapter;
+  private uniswapV4: UniswapV4Adapter;
+  private pairDiscovery: PairDiscovery | null = null;
+  private flashLoanSelector: FlashLoanProviderSelector;
   private isScanning: boolean = false;
 
-  constructor(provider: ethers.JsonRpcProvider) {
+  // Block-driven mode
+  private blockListener: ((blockNumber: number) => void) | null = null;
+  private lastProcessedBlock: number = 0;
+  private isProcessingBlock: boolean = false;
+  private pendingBlock: number | null = null;
+
+  private costModel: CostModel = new CostModel();
+
+  constructor(provider: ethers.JsonRpcProvider, network: NetworkName = 'ETHEREUM') {
+    super();
+    const deployment = CHAIN_DEPLOYMENTS[network];
+    if (!deployment) {
+      throw new Error(`No DEX deployments configured for ${network}`);
+    }
+
     this.provider = provider;
+    this.network = network;
+    this.chain = NETWORK_CONFIG[network].name.toLowerCase();
+    this.deployment = deployment;
+    this.tokens = deployment.tokens.map(symbol => {
+      const token = tokenRegistry.getBySymbol(symbol, this.chain);
+      if (!token) throw new Error(`Token ${symbol} is not registered on ${this.chain}`);
+      return token.address;
+    });
+
+    // Quotes only change once per block, so polling faster than the chain produces them is wasted
+    this.scanInterval = Math.max(BOT_CONFIG.OPPORTUNITY_SCAN_INTERVAL, NETWORK_CONFIG[network].blockTime);
+
+    // Every quote and reserve read goes through the shared batcher, one aggregate3 per tick
+    this.multicall = MulticallBatcher.forProvider(provider);
+    this.solidly = new SolidlyAdapter(this.multicall, this.poolCache);
+    this.uniswapV4 = new UniswapV4Adapter(this.multicall, this.poolCache, tokenRegistry.getBySymbol(deployment.wrappedNative, this.chain)!.address);
+    this.flashLoanSelector = new FlashLoanProviderSelector(this.multicall, network, this.tokens);
+
+    if (BOT_CONFIG.PAIR_DISCOVERY.ENABLED) {
+      this.pairDiscovery = new PairDiscovery(provider, network);
+    }
   }
 
-  // Uniswap V2 Router ABI (simplified)
-  private readonly UNISWAP_V2_ROUTER_ABI = [
-    'function getAmountsOut(uint amountIn, address[] calldata path) external view returns (uint[] memory amounts)',
-    'function getAmountsIn(uint amountOut, address[] calldata path) external view returns (uint[] memory amounts)'
+  // Uniswap V2 Factory / Pair ABIs (simplified)
+  private readonly UNISWAP_V2_FACTORY_ABI = [
+    'function getPair(address tokenA, address tokenB) external view returns (address pair)'
+  ];
+
+  private readonly UNISWAP_V3_POOL_ABI = [
+    'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)'
+  ];
+
+  private readonly UNISWAP_V3_FACTORY_ABI = [
+    'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)'
+  ];
+
+  private readonly UNISWAP_V2_PAIR_ABI = [
+    'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'
+  ];
+
+  // Uniswap V3 QuoterV2 ABI (simplified)
+  private readonly UNISWAP_V3_QUOTER_ABI = [
+    'function quoteExactInputSingle(tuple(address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)'
   ];
 
   async startScanning(): Promise<void> {
@@ -48,22 +174,103 @@ export class OpportunityFinder {
     }
 
     this.isScanning = true;
-    logger.info('🔍 Starting opportunity scanner...');
+    logger.info(`🔍 Starting opportunity scanner on ${NETWORK_CONFIG[this.network].name}...`);
 
-    // Scan continuously
-    this.scanLoop();
+    if (this.pairDiscovery) {
+      await this.pairDiscovery.start();
+    }
+
+    if (BOT_CONFIG.SCAN_MODE === 'block') {
+      await this.startBlockScanning();
+    } else {
+      // Scan continuously
+      this.scanLoop();
+    }
   }
 
   async stopScanning(): Promise<void> {
     this.isScanning = false;
-    logger.info('⏹️  Stopped opportunity scanner');
+    this.pairDiscovery?.stop();
+
+    if (this.blockListener) {
+      await this.provider.off('block', this.blockListener);
+      this.blockListener = null;
+    }
+
+    logger.info(`⏹️  Stopped opportunity scanner on ${NETWORK_CONFIG[this.network].name}`);
+  }
+
+  private async startBlockScanning(): Promise<void> {
+    logger.info('⛓️  Block-driven scanning: re-evaluating pairs whose pools emit Sync/Swap events');
+
+    // One full scan discovers the pools to watch and seeds their state
+    const startBlock = await this.provider.getBlockNumber();
+    await this.scanForOpportunities();
+    this.lastProcessedBlock = startBlock;
+
+    this.blockListener = (blockNumber: number) => {
+      this.handleBlock(blockNumber).catch(error => logger.error('Error handling block:', error));
+    };
+    await this.provider.on('block', this.blockListener);
+  }
+
+  private async handleBlock(blockNumber: number): Promise<void> {
+    // Blocks arriving while the previous one is still being processed are folded into the next run
+    if (this.isProcessingBlock) {
+      this.pendingBlock = blockNumber;
+      return;
+    }
+
+    this.isProcessingBlock = true;
+    try {
+      let target: number | null = blockNumber;
+      while (target !== null && this.isScanning) {
+        this.pendingBlock = null;
+        await this.processBlockRange(this.lastProcessedBlock + 1, target);
+        this.lastProcessedBlock = target;
+        this.currentBlock = Math.max(this.currentBlock, target);
+        this.expireOpportunities();
+        target = this.pendingBlock;
+      }
+    } finally {
+      this.isProcessingBlock = false;
+    }
+  }
+
+  private async processBlockRange(fromBlock: number, toBlock: number): Promise<void> {
+    const addresses = this.poolCache.getTrackedAddresses();
+    if (fromBlock > toBlock || addresses.length === 0) return;
+
+    const logs = await this.provider.getLogs({
+      address: addresses,
+      topics: [[this.poolCache.SYNC_TOPIC, this.poolCache.SOLIDLY_SYNC_TOPIC, this.poolCache.V3_SWAP_TOPIC, this.poolCache.V4_SWAP_TOPIC]],
+      fromBlock,
+      toBlock
+    });
+
+    const changedPools = this.poolCache.applyLogs(logs);
+    if (changedPools.size === 0) return;
+
+    const pairs = this.getPairsForPools(changedPools);
+    logger.debug(`Block ${toBlock}: ${changedPools.size} pools changed, re-evaluating ${pairs.length} pairs`);
+    await this.scanPairs(pairs);
+  }
+
+  private getPairsForPools(poolAddresses: Set<string>): { tokenA: string; tokenB: string }[] {
+    const changedPairs = new Set<string>();
+    for (const address of poolAddresses) {
+      const pool = this.poolCache.getPool(address);
+      if (pool) changedPairs.add(this.pairKey(pool.token0, pool.token1));
+    }
+
+    return this.generateTokenPairs().filter(pair => changedPairs.has(this.pairKey(pair.tokenA, pair.tokenB)));
   }
 
   private async scanLoop(): Promise<void> {
     while (this.isScanning) {
       try {
         await this.scanForOpportunities();
-        await this.sleep(BOT_CONFIG.OPPORTUNITY_SCAN_INTERVAL);
+        await this.sleep(this.scanInterval);
       } catch (error) {
         logger.error('Error in scan loop:', error);
         await this.sleep(5000); // Wait 5 seconds on error
@@ -72,14 +279,97 @@ export class OpportunityFinder {
   }
 
   private async scanForOpportunities(): Promise<void> {
-    const tokenPairs = this.generateTokenPairs();
-    const scanPromises = tokenPairs.map(pair => this.scanTokenPair(pair.tokenA, pair.tokenB));
-    
-    await Promise.all(scanPromises);
+    await this.scanPairs(this.generateTokenPairs());
+  }
+
+  private async scanPairs(tokenPairs: { tokenA: string; tokenB: string }[]): Promise<void> {
+    const tokens = new Set([...this.tokens, ...tokenPairs.flatMap(pair => [pair.tokenA, pair.tokenB])]);
+    // A token without readable metadata only fails its own pairs
+    await Promise.all(Array.from(tokens).map(token => tokenRegistry.resolve(token, this.provider, this.chain).catch(() => null)));
+
+    // Quote every pair first so quote-currency rates are known before any profit is priced
+    const [blockNumber, , results] = await Promise.all([
+      this.multicall.getBlockNumber(),
+      this.costModel.refreshFeeData(this.provider),
+      Promise.all(tokenPairs.map(pair => this.quoteTokenPair(pair.tokenA, pair.tokenB)))
+    ]);
+    const pairQuotes: PairQuotes[] = [];
+
+    this.currentBlock = Math.max(this.currentBlock, blockNumber);
+    this.detectedThisScan = new Set();
+
+    tokenPairs.forEach((pair, index) => {
+      const quotes = results[index];
+      const key = this.pairKey(pair.tokenA, pair.tokenB);
+      if (quotes) {
+        this.pairQuotes.set(key, quotes);
+        this.updateQuoteRates(quotes);
+        pairQuotes.push(quotes);
+      } else {
+        this.pairQuotes.delete(key);
+      }
+    });
+
+    await Promise.all(pairQuotes.map(quotes => this.scanTokenPair(quotes)));
+
+    // The latest quotes of every pair form the graph, so a changed pool is re-checked in every cycle through it
+    await this.scanCycles(this.buildGraph());
+
+    this.invalidateOpportunities(new Set(tokenPairs.map(pair => this.pairKey(pair.tokenA, pair.tokenB))));
+    this.expireOpportunities();
+  }
+
+  // A re-scanned pair reflects its pools' current state, so routes through it that were not found again are gone
+  private invalidateOpportunities(scannedPairs: Set<string>): void {
+    for (const [id, opportunity] of this.opportunities) {
+      if (this.detectedThisScan.has(id)) continue;
+
+      const touchesScannedPair = (opportunity.hops || [])
+        .some(hop => scannedPairs.has(this.pairKey(hop.tokenIn, hop.tokenOut)));
+      if (touchesScannedPair) {
+        this.opportunities.delete(id);
+        logger.debug(`Opportunity ${id} invalidated: pools changed`);
+        this.publish({ type: 'opportunity:expired', opportunity, reason: 'invalidated' });
+      }
+    }
+  }
+
+  private expireOpportunities(): void {
+    for (const [id, opportunity] of this.opportunities) {
+      if (opportunity.blockNumber !== undefined && this.currentBlock - opportunity.blockNumber > BOT_CONFIG.OPPORTUNITY_TTL_BLOCKS) {
+        this.opportunities.delete(id);
+        logger.debug(`Opportunity ${id} expired at block ${this.currentBlock}`);
+        this.publish({ type: 'opportunity:expired', opportunity, reason: 'expired' });
+      }
+    }
+  }
+
+  // Same chain, pair, route and direction always map to the same id, so re-detections land on one entry
+  private getRouteKey(hops: ArbitrageHop[]): string {
+    return `${this.chain}/` + hops
+      .map(hop => `${hop.dex}:${hop.tokenIn.toLowerCase()}>${hop.tokenOut.toLowerCase()}`)
+      .join('|');
+  }
+
+  private buildGraph(): ArbitrageGraph {
+    const graph = new ArbitrageGraph();
+    for (const quotes of this.pairQuotes.values()) {
+      this.addGraphEdges(graph, quotes.tokenA, quotes.tokenB, quotes.amountInA, quotes.forward);
+      this.addGraphEdges(graph, quotes.tokenB, quotes.tokenA, quotes.amountInB, quotes.reverse);
+    }
+    return graph;
+  }
+
+  private pairKey(tokenA: string, tokenB: string): string {
+    return [tokenA.toLowerCase(), tokenB.toLowerCase()].sort().join(':');
   }
 
   private generateTokenPairs(): { tokenA: string; tokenB: string }[] {
-    const tokens = Object.values(TOKENS);
+    // Discovered pairs that trade on two or more DEXes, once the registry has any
+    const discovered = this.pairDiscovery?.getPairs() || [];
+    if (discovered.length > 0) return discovered;
+
+    const tokens = this.tokens;
     const pairs: { tokenA: string; tokenB: string }[] = [];
 
     for (let i = 0; i < tokens.length; i++) {
@@ -91,63 +381,262 @@ export class OpportunityFinder {
     return pairs;
   }
 
-  private async scanTokenPair(tokenA: string, tokenB: string): Promise<void> {
+  private async quoteTokenPair(tokenA: string, tokenB: string): Promise<PairQuotes | null> {
     try {
-      const amountIn = ethers.parseUnits('1.0', 18); // 1 ETH equivalent
-      const dexPrices = await this.getPricesFromAllDEXs(tokenA, tokenB, amountIn);
-      
-      // Find arbitrage opportunities
-      const opportunities = this.findArbitrageOpportunities(tokenA, tokenB, amountIn.toString(), dexPrices);
+      // Probe with one whole token in each direction, whatever its decimals
+      const amountInA = this.getProbeAmount(tokenA);
+      const amountInB = this.getProbeAmount(tokenB);
+      const [forward, reverse] = await Promise.all([
+        this.getPricesFromAllDEXs(tokenA, tokenB, amountInA),
+        this.getPricesFromAllDEXs(tokenB, tokenA, amountInB)
+      ]);
+
+      return { tokenA, tokenB, amountInA, amountInB, forward, reverse };
+    } catch (error) {
+      logger.debug(`Error quoting pair ${tokenA}-${tokenB}:`, error);
+      return null;
+    }
+  }
+
+  private async scanTokenPair(quotes: PairQuotes): Promise<void> {
+    const { tokenA, tokenB, forward } = quotes;
+
+    try {
+      // Find arbitrage opportunities - V2 pool pairs are sized from reserves, the rest from the probe quote
+      const opportunities = [
+        ...await this.findArbitrageOpportunities(quotes),
+        ...await this.findSizedArbitrageOpportunities(tokenA, tokenB, forward)
+      ];
       
       for (const opportunity of opportunities) {
-        if (opportunity.profitPercentage >= BOT_CONFIG.MIN_PROFIT_THRESHOLD) {
-          this.opportunities.set(opportunity.id, opportunity);
-          logger.opportunity(
-            `Found arbitrage: ${opportunity.profitPercentage.toFixed(4)}% profit`,
-            {
-              tokenA,
-              tokenB,
-              profit: opportunity.expectedProfit,
-              dexA: opportunity.dexA.name,
-              dexB: opportunity.dexB.name
-            }
-          );
-        }
+        this.recordOpportunity(opportunity);
       }
     } catch (error) {
       logger.debug(`Error scanning pair ${tokenA}-${tokenB}:`, error);
     }
   }
 
+  private recordOpportunity(opportunity: ArbitrageOpportunity): void {
+    if (opportunity.profitPercentage < BOT_CONFIG.MIN_PROFIT_THRESHOLD) return;
+
+    const id = opportunity.id;
+    const existing = this.opportunities.get(id);
+    const now = Date.now();
+
+    const tracked: ArbitrageOpportunity = {
+      ...opportunity,
+      timestamp: now,
+      firstSeen: existing?.firstSeen ?? now,
+      lastSeen: now,
+      seenCount: (existing?.seenCount || 0) + 1,
+      blockNumber: this.currentBlock,
+      chain: this.chain
+    };
+
+    this.detectedThisScan.add(id);
+    this.opportunities.set(id, tracked);
+
+    if (existing) {
+      logger.debug(`Updated arbitrage ${id}: ${opportunity.profitPercentage.toFixed(4)}% profit, seen ${tracked.seenCount} times`);
+      this.publish({ type: 'opportunity:updated', opportunity: tracked });
+      return;
+    }
+
+    this.publish({ type: 'opportunity:new', opportunity: tracked });
+
+    logger.opportunity(
+      `Found arbitrage: ${opportunity.profitPercentage.toFixed(4)}% profit`,
+      {
+        chain: this.chain,
+        tokenA: opportunity.tokenA,
+        tokenB: opportunity.tokenB,
+        profit: opportunity.expectedProfit,
+        route: opportunity.hops?.map(hop => hop.dex).join(' → ')
+      }
+    );
+  }
+
+  private addGraphEdges(graph: ArbitrageGraph, tokenIn: string, tokenOut: string, amountIn: bigint, dexPrices: any[]): void {
+    for (const quote of dexPrices) {
+      graph.addEdge(tokenIn, tokenOut, {
+        dex: quote.dex,
+        router: quote.router,
+        fee: quote.fee,
+        stable: quote.stable,
+        poolKey: quote.poolKey,
+        amountIn,
+        amountOut: BigInt(quote.amountOut),
+        spotAmountOut: quote.spotAmountOut !== undefined ? BigInt(quote.spotAmountOut) : undefined,
+        gasUnits: quote.gasEstimate !== undefined ? BigInt(quote.gasEstimate) : undefined
+      });
+    }
+  }
+
+  private async scanCycles(graph: ArbitrageGraph): Promise<void> {
+    const cycles = graph.findNegativeCycles(3, BOT_CONFIG.MAX_CYCLE_HOPS);
+    logger.debug(`Cycle search over ${graph.getEdgeCount()} pool edges found ${cycles.length} candidate cycles`);
+
+    const opportunities = await Promise.all(cycles.map(cycle => this.calculateCycleArbitrage(cycle)));
+    for (const opportunity of opportunities) {
+      if (opportunity) {
+        this.recordOpportunity(opportunity);
+      }
+    }
+  }
+
+  private async calculateCycleArbitrage(cycle: ArbitrageCycle): Promise<ArbitrageOpportunity | null> {
+    const first = cycle.edges[0];
+    const last = cycle.edges[cycle.edges.length - 1];
+
+    // Chain the quoted rates hop by hop, starting from the first edge's probe size
+    const amountIn = first.amountIn;
+    const legs: CostLeg[] = [];
+    let amountOut = amountIn;
+    for (const edge of cycle.edges) {
+      const legIn = amountOut;
+      amountOut = (legIn * edge.amountOut) / edge.amountIn;
+      legs.push({
+        tokenIn: edge.from,
+        tokenOut: edge.to,
+        amountIn: legIn,
+        amountOut,
+        fee: edge.fee ?? 0,
+        spotAmountOut: edge.spotAmountOut !== undefined ? (legIn * edge.spotAmountOut) / edge.amountIn : undefined,
+        gasUnits: edge.gasUnits
+      });
+    }
+
+    const priced = await this.priceRoute(amountIn, legs);
+    if (!priced || priced.netProfit <= 0n) return null;
+    const { breakdown, netProfit, costs, flashLoanRejections } = priced;
+    const profitPercentage = this.percentage(breakdown.netProfit, amountIn);
+
+    const hops: ArbitrageHop[] = cycle.edges.map((edge, index) => ({
+      dex: edge.dex,
+      router: edge.router,
+      tokenIn: edge.from,
+      tokenOut: edge.to,
+      fee: edge.fee,
+      stable: edge.stable,
+      poolKey: edge.poolKey,
+      amountOut: legs[index].amountOut.toString()
+    }));
+
+    return {
+      id: this.getRouteKey(hops),
+      tokenA: first.from,
+      tokenB: first.to,
+      amountIn: amountIn.toString(),
+      expectedProfit: this.formatQuote(netProfit),
+      profitPercentage,
+      dexA: {
+        name: first.dex,
+        router: first.router,
+        priceA: this.toPrice(first.from, first.to, first.amountIn, first.amountOut).toString()
+      },
+      dexB: {
+        name: last.dex,
+        router: last.router,
+        priceB: this.toPrice(last.from, last.to, last.amountIn, last.amountOut).toString()
+      },
+      gasEstimate: (breakdown.gasUnits * breakdown.gasPrice).toString(),
+      costs,
+      flashLoanRejections,
+      profitCurrency: BOT_CONFIG.QUOTE_CURRENCY,
+      timestamp: Date.now(),
+      priority: this.calculatePriority(profitPercentage, netProfit),
+      type: hops.length === 3 ? 'triangular' : 'multi-hop',
+      hops
+    };
+  }
+
   private async getPricesFromAllDEXs(tokenA: string, tokenB: string, amountIn: bigint): Promise<any[]> {
-    const promises = [];
+    const promises: Promise<any>[] = [];
+
+    // Uniswap V2 forks
+    for (const dex of this.deployment.v2) {
+      promises.push(this.getUniswapV2Price(dex, tokenA, tokenB, amountIn));
+    }
+
+    // Uniswap V3 - one quote per fee tier, each tier is a separate pool
+    for (const dex of this.deployment.v3) {
+      for (const fee of dex.fees) {
+        promises.push(this.getUniswapV3Price(dex, tokenA, tokenB, amountIn, fee));
+      }
+    }
 
-    // Uniswap V2
-    promises.push(this.getUniswapV2Price(DEX_CONFIG.UNISWAP_V2.router, tokenA, tokenB, amountIn, 'Uniswap V2'));
-    
-    // SushiSwap
-    promises.push(this.getUniswapV2Price(DEX_CONFIG.SUSHISWAP.router, tokenA, tokenB, amountIn, 'SushiSwap'));
+    // Solidly forks - stable and volatile pools, each a quote of its own
+    for (const dex of this.deployment.solidly || []) {
+      promises.push(this.getSolidlyPrices(dex, tokenA, tokenB, amountIn));
+    }
+
+    // Uniswap V4 - every initialised pool of the pair the hook policy allows
+    for (const dex of this.deployment.v4 || []) {
+      promises.push(this.getUniswapV4Prices(dex, tokenA, tokenB, amountIn));
+    }
 
     const results = await Promise.allSettled(promises);
     return results
       .filter(result => result.status === 'fulfilled')
-      .map(result => (result as PromiseFulfilledResult<any>).value)
+      .flatMap(result => (result as PromiseFulfilledResult<any>).value)
       .filter(price => price !== null);
   }
 
-  private async getUniswapV2Price(routerAddress: string, tokenA: string, tokenB: string, amountIn: bigint, dexName: string): Promise<any> {
+  private async getUniswapV2Price(dexConfig: V2DexConfig, tokenA: string, tokenB: string, amountIn: bigint): Promise<any> {
+    const dexName = dexConfig.name;
+
+    try {
+      // Quoted from reserves - the same math as the router's getAmountsOut, plus the mid price
+      const pool = await this.getV2Pool({ dex: dexName, factory: dexConfig.factory, fee: dexConfig.fee }, tokenA, tokenB);
+      if (!pool) return null;
+
+      const amountOut = getAmountOut(amountIn, pool);
+      if (amountOut <= 0n) return null;
+
+      return {
+        dex: dexName,
+        router: dexConfig.router,
+        factory: dexConfig.factory,
+        fee: dexConfig.fee,
+        amountOut: amountOut.toString(),
+        spotAmountOut: getSpotAmountOut(amountIn, pool).toString(),
+        price: this.toPrice(tokenA, tokenB, amountIn, amountOut)
+      };
+    } catch (error) {
+      logger.debug(`Failed to get price from ${dexName}:`, error);
+      return null;
+    }
+  }
+
+  private async getUniswapV3Price(dexConfig: V3DexConfig, tokenA: string, tokenB: string, amountIn: bigint, fee: number): Promise<any> {
+    const dexName = `${dexConfig.name} (${(fee * 100).toFixed(2)}%)`;
+
     try {
-      const router = new ethers.Contract(routerAddress, this.UNISWAP_V2_ROUTER_ABI, this.provider);
-      const path = [tokenA, tokenB];
-      
-      const amounts = await router.getAmountsOut(amountIn, path);
-      const amountOut = amounts[1];
-      
+      const poolAddress = await this.getV3Pool(dexConfig, tokenA, tokenB, fee);
+      if (!poolAddress) return null;
+
+      // QuoterV2 is not a view contract (it reverts inside the swap callback),
+      // but aggregate3 runs under eth_call so it batches like any other read
+      const [[amountOut, , , gasEstimate], [sqrtPriceX96]] = await Promise.all([
+        this.multicall.call(dexConfig.quoter, this.UNISWAP_V3_QUOTER_ABI, 'quoteExactInputSingle', [{
+          tokenIn: tokenA,
+          tokenOut: tokenB,
+          amountIn,
+          fee: Math.round(fee * 1_000_000), // uint24 fee in hundredths of a bip
+          sqrtPriceLimitX96: 0
+        }]),
+        this.multicall.call(poolAddress, this.UNISWAP_V3_POOL_ABI, 'slot0')
+      ]);
+      const zeroForOne = tokenA.toLowerCase() < tokenB.toLowerCase();
+
       return {
         dex: dexName,
-        router: routerAddress,
+        router: dexConfig.router,
+        fee,
         amountOut: amountOut.toString(),
-        price: parseFloat(ethers.formatUnits(amountOut, 18))
+        spotAmountOut: getV3SpotAmountOut(amountIn, sqrtPriceX96, zeroForOne).toString(),
+        price: this.toPrice(tokenA, tokenB, amountIn, amountOut),
+        gasEstimate: gasEstimate.toString()
       };
     } catch (error) {
       logger.debug(`Failed to get price from ${dexName}:`, error);
@@ -155,67 +644,401 @@ export class OpportunityFinder {
     }
   }
 
-  private findArbitrageOpportunities(tokenA: string, tokenB: string, amountIn: string, dexPrices: any[]): ArbitrageOpportunity[] {
-    const opportunities: ArbitrageOpportunity[] = [];
+  private async getSolidlyPrices(dexConfig: SolidlyDexConfig, tokenA: string, tokenB: string, amountIn: bigint): Promise<any[]> {
+    try {
+      const quotes = await this.solidly.getQuotes(dexConfig, tokenA, tokenB, amountIn);
+      return quotes.map(quote => ({
+        dex: quote.dex,
+        router: quote.router,
+        fee: quote.fee,
+        stable: quote.stable,
+        amountOut: quote.amountOut.toString(),
+        spotAmountOut: quote.spotAmountOut.toString(),
+        price: this.toPrice(tokenA, tokenB, amountIn, quote.amountOut)
+      }));
+    } catch (error) {
+      logger.debug(`Failed to get price from ${dexConfig.name}:`, error);
+      return [];
+    }
+  }
 
-    for (let i = 0; i < dexPrices.length; i++) {
-      for (let j = i + 1; j < dexPrices.length; j++) {
-        const dexA = dexPrices[i];
-        const dexB = dexPrices[j];
+  private async getUniswapV4Prices(dexConfig: V4DexConfig, tokenA: string, tokenB: string, amountIn: bigint): Promise<any[]> {
+    try {
+      const quotes = await this.uniswapV4.getQuotes(dexConfig, tokenA, tokenB, amountIn);
+      return quotes
+        .filter(quote => this.isHookAllowed(quote.poolKey, quote.hookFlags))
+        .map(quote => ({
+          dex: quote.dex,
+          router: quote.router,
+          fee: quote.fee,
+          poolKey: quote.poolKey,
+          hookFlags: quote.hookFlags,
+          amountOut: quote.amountOut.toString(),
+          spotAmountOut: quote.spotAmountOut.toString(),
+          price: this.toPrice(tokenA, tokenB, amountIn, quote.amountOut),
+          gasEstimate: quote.gasEstimate.toString()
+        }));
+    } catch (error) {
+      logger.debug(`Failed to get price from ${dexConfig.name}:`, error);
+      return [];
+    }
+  }
 
-        // Check both directions
-        const opportunity1 = this.calculateArbitrage(tokenA, tokenB, amountIn, dexA, dexB);
-        const opportunity2 = this.calculateArbitrage(tokenA, tokenB, amountIn, dexB, dexA);
+  // BOT_CONFIG.V4_HOOK_POLICY applied to a pool's hook permissions
+  private isHookAllowed(key: PoolKey, flags: V4HookFlags): boolean {
+    switch (BOT_CONFIG.V4_HOOK_POLICY) {
+      case 'all': return true;
+      case 'passive': return !flags.changesSwap;
+      default: return key.hooks === ethers.ZeroAddress;
+    }
+  }
+
+  private async findArbitrageOpportunities(quotes: PairQuotes): Promise<ArbitrageOpportunity[]> {
+    const promises: Promise<ArbitrageOpportunity | null>[] = [];
+
+    // Sell tokenA on one DEX (forward quote), buy it back on another (reverse quote)
+    for (const sellQuote of quotes.forward) {
+      for (const buyQuote of quotes.reverse) {
+        if (sellQuote.dex === buyQuote.dex) continue;
 
-        if (opportunity1) opportunities.push(opportunity1);
-        if (opportunity2) opportunities.push(opportunity2);
+        // Two constant-product pools are sized from their reserves instead
+        if (sellQuote.factory && buyQuote.factory) continue;
+
+        promises.push(this.calculateArbitrage(quotes, sellQuote, buyQuote));
       }
     }
 
+    const opportunities = (await Promise.all(promises))
+      .filter((opportunity): opportunity is ArbitrageOpportunity => opportunity !== null);
     return opportunities.sort((a, b) => b.profitPercentage - a.profitPercentage);
   }
 
-  private calculateArbitrage(tokenA: string, tokenB: string, amountIn: string, dexA: any, dexB: any): ArbitrageOpportunity | null {
-    const priceA = dexA.price;
-    const priceB = dexB.price;
-    
-    if (priceA >= priceB) return null; // No arbitrage opportunity
+  private async calculateArbitrage(quotes: PairQuotes, dexB: any, dexA: any): Promise<ArbitrageOpportunity | null> {
+    const { tokenA, tokenB, amountInA: amountIn, amountInB } = quotes;
+
+    // The buy-back quote was taken at the reverse probe size, scale it to what the sale returns
+    const amountB = BigInt(dexB.amountOut);
+    const scale = (amount: bigint) => (amount * amountB) / amountInB;
+    const amountOut = scale(BigInt(dexA.amountOut));
+
+    if (amountOut <= amountIn) return null; // No arbitrage opportunity
+
+    const sellLeg = this.toCostLeg(tokenA, tokenB, amountIn, dexB);
+    const buyLeg = this.toCostLeg(tokenB, tokenA, amountB, dexA);
+    buyLeg.amountOut = amountOut;
+    if (buyLeg.spotAmountOut !== undefined) buyLeg.spotAmountOut = scale(buyLeg.spotAmountOut);
 
-    const profit = priceB - priceA;
-    const profitPercentage = (profit / priceA) * 100;
-    
-    // Estimate gas costs (simplified)
-    const gasEstimate = ethers.parseUnits('0.01', 18); // 0.01 ETH estimated gas
-    const netProfit = profit - parseFloat(ethers.formatUnits(gasEstimate, 18));
-    
-    if (netProfit <= 0) return null;
+    const priced = await this.priceRoute(amountIn, [sellLeg, buyLeg]);
+    if (!priced || priced.netProfit <= 0n) return null;
+    const { breakdown, netProfit, costs, flashLoanRejections } = priced;
+    const profitPercentage = this.percentage(breakdown.netProfit, amountIn);
+
+    // Sell tokenA where it fetches more tokenB, then buy it back where tokenA is cheaper
+    const hops: ArbitrageHop[] = [
+      { dex: dexB.dex, router: dexB.router, tokenIn: tokenA, tokenOut: tokenB, fee: dexB.fee, stable: dexB.stable, poolKey: dexB.poolKey, amountOut: amountB.toString() },
+      { dex: dexA.dex, router: dexA.router, tokenIn: tokenB, tokenOut: tokenA, fee: dexA.fee, stable: dexA.stable, poolKey: dexA.poolKey, amountOut: amountOut.toString() }
+    ];
 
     return {
-      id: `${tokenA}-${tokenB}-${dexA.dex}-${dexB.dex}-${Date.now()}`,
+      id: this.getRouteKey(hops),
       tokenA,
       tokenB,
-      amountIn,
-      expectedProfit: netProfit.toString(),
+      amountIn: amountIn.toString(),
+      expectedProfit: this.formatQuote(netProfit),
       profitPercentage,
       dexA: {
         name: dexA.dex,
         router: dexA.router,
-        priceA: priceA.toString()
+        priceA: this.toPrice(tokenA, tokenB, BigInt(dexA.amountOut), amountInB).toString() // tokenB per tokenA
       },
       dexB: {
         name: dexB.dex,
         router: dexB.router,
-        priceB: priceB.toString()
+        priceB: dexB.price.toString()
       },
-      gasEstimate: gasEstimate.toString(),
+      gasEstimate: (breakdown.gasUnits * breakdown.gasPrice).toString(),
+      costs,
+      flashLoanRejections,
+      profitCurrency: BOT_CONFIG.QUOTE_CURRENCY,
       timestamp: Date.now(),
-      priority: this.calculatePriority(profitPercentage, netProfit)
+      priority: this.calculatePriority(profitPercentage, netProfit),
+      hops
     };
   }
 
-  private calculatePriority(profitPercentage: number, netProfit: number): number {
+  private async findSizedArbitrageOpportunities(tokenA: string, tokenB: string, dexPrices: any[]): Promise<ArbitrageOpportunity[]> {
+    const v2Quotes = dexPrices.filter(quote => quote.factory);
+    const promises: Promise<ArbitrageOpportunity | null>[] = [];
+
+    for (let i = 0; i < v2Quotes.length; i++) {
+      for (let j = i + 1; j < v2Quotes.length; j++) {
+        promises.push(this.calculateSizedArbitrage(tokenA, tokenB, v2Quotes[i], v2Quotes[j]));
+      }
+    }
+
+    const results = await Promise.all(promises);
+    return results.filter((opportunity): opportunity is ArbitrageOpportunity => opportunity !== null);
+  }
+
+  private async calculateSizedArbitrage(tokenA: string, tokenB: string, dexX: any, dexY: any): Promise<ArbitrageOpportunity | null> {
+    try {
+      const [poolX, poolY] = await Promise.all([
+        this.getV2Pool(dexX, tokenA, tokenB),
+        this.getV2Pool(dexY, tokenA, tokenB)
+      ]);
+      if (!poolX || !poolY) return null;
+
+      // At most one direction can be profitable: sell tokenA on one pool, buy it back on the other
+      let sellDex = dexX, buyDex = dexY;
+      let sellPool = poolX, buyPool = this.reversePool(poolY);
+      let amountIn = getOptimalCycleInput(sellPool, buyPool);
+
+      if (amountIn <= 0n) {
+        sellDex = dexY; buyDex = dexX;
+        sellPool = poolY; buyPool = this.reversePool(poolX);
+        amountIn = getOptimalCycleInput(sellPool, buyPool);
+      }
+      if (amountIn <= 0n) return null;
+
+      const amountMid = getAmountOut(amountIn, sellPool);
+      const amountOut = getCycleAmountOut(amountIn, sellPool, buyPool);
+
+      const priced = await this.priceRoute(amountIn, [
+        { tokenIn: tokenA, tokenOut: tokenB, amountIn, amountOut: amountMid, fee: sellDex.fee, spotAmountOut: getSpotAmountOut(amountIn, sellPool) },
+        { tokenIn: tokenB, tokenOut: tokenA, amountIn: amountMid, amountOut, fee: buyDex.fee, spotAmountOut: getSpotAmountOut(amountMid, buyPool) }
+      ]);
+      if (!priced || priced.netProfit <= 0n) return null;
+      const { breakdown, netProfit, costs, flashLoanRejections } = priced;
+      const profitPercentage = this.percentage(breakdown.netProfit, amountIn);
+
+      const hops: ArbitrageHop[] = [
+        { dex: sellDex.dex, router: sellDex.router, tokenIn: tokenA, tokenOut: tokenB, fee: sellDex.fee, amountOut: amountMid.toString() },
+        { dex: buyDex.dex, router: buyDex.router, tokenIn: tokenB, tokenOut: tokenA, fee: buyDex.fee, amountOut: amountOut.toString() }
+      ];
+
+      return {
+        id: this.getRouteKey(hops),
+        tokenA,
+        tokenB,
+        amountIn: amountIn.toString(),
+        expectedProfit: this.formatQuote(netProfit),
+        profitPercentage,
+        dexA: {
+          name: buyDex.dex,
+          router: buyDex.router,
+          priceA: this.toPrice(tokenA, tokenB, buyPool.reserveOut, buyPool.reserveIn).toString() // spot tokenB per tokenA
+        },
+        dexB: {
+          name: sellDex.dex,
+          router: sellDex.router,
+          priceB: this.toPrice(tokenA, tokenB, sellPool.reserveIn, sellPool.reserveOut).toString()
+        },
+        gasEstimate: (breakdown.gasUnits * breakdown.gasPrice).toString(),
+        costs,
+        flashLoanRejections,
+        profitCurrency: BOT_CONFIG.QUOTE_CURRENCY,
+        timestamp: Date.now(),
+        priority: this.calculatePriority(profitPercentage, netProfit),
+        hops
+      };
+    } catch (error) {
+      logger.debug(`Failed to size ${dexX.dex}/${dexY.dex} arbitrage:`, error);
+      return null;
+    }
+  }
+
+  // Reserves of the tokenIn -> tokenOut side of a V2 pair, or null if the pair doesn't exist
+  // Reserves come from the event-fed cache while block-driven scanning keeps it current
+  private async getV2Pool(dex: { dex: string; factory: string; fee: number }, tokenIn: string, tokenOut: string): Promise<ConstantProductPool | null> {
+    const pairKey = `${dex.factory}:${this.pairKey(tokenIn, tokenOut)}`;
+    let pairAddress = this.pairAddresses.get(pairKey) as string;
+    const tokenInIsToken0 = tokenIn.toLowerCase() < tokenOut.toLowerCase();
+
+    if (!pairAddress) {
+      [pairAddress] = await this.multicall.call(dex.factory, this.UNISWAP_V2_FACTORY_ABI, 'getPair', [tokenIn, tokenOut]);
+      this.pairAddresses.set(pairKey, pairAddress);
+
+      if (pairAddress !== ethers.ZeroAddress) {
+        this.poolCache.track({
+          address: pairAddress,
+          kind: 'v2',
+          dex: dex.dex,
+          token0: tokenInIsToken0 ? tokenIn : tokenOut,
+          token1: tokenInIsToken0 ? tokenOut : tokenIn,
+          fee: dex.fee
+        });
+      }
+    }
+    if (pairAddress === ethers.ZeroAddress) return null;
+
+    let state = this.blockListener ? this.poolCache.getState(pairAddress) : null;
+    if (state?.reserve0 === undefined || state?.reserve1 === undefined) {
+      const [reserve0, reserve1] = await this.multicall.call(pairAddress, this.UNISWAP_V2_PAIR_ABI, 'getReserves');
+      this.poolCache.setReserves(pairAddress, reserve0, reserve1, this.lastProcessedBlock);
+      state = this.poolCache.getState(pairAddress)!;
+    }
+    const reserve0 = state.reserve0!;
+    const reserve1 = state.reserve1!;
+
+    return {
+      reserveIn: tokenInIsToken0 ? reserve0 : reserve1,
+      reserveOut: tokenInIsToken0 ? reserve1 : reserve0,
+      feeBps: feeToBps(dex.fee)
+    };
+  }
+
+  // V3 pool address for a fee tier, or null if there is none. Pools are registered with the
+  // state cache so their Swap events trigger re-evaluation in block-driven mode.
+  private async getV3Pool(dex: V3DexConfig, tokenA: string, tokenB: string, fee: number): Promise<string | null> {
+    const key = `${dex.factory}:${this.pairKey(tokenA, tokenB)}:${fee}`;
+    let poolAddress = this.v3PoolAddresses.get(key) as string;
+
+    if (!poolAddress) {
+      [poolAddress] = await this.multicall.call(dex.factory, this.UNISWAP_V3_FACTORY_ABI, 'getPool', [tokenA, tokenB, Math.round(fee * 1_000_000)]);
+      this.v3PoolAddresses.set(key, poolAddress);
+
+      if (poolAddress !== ethers.ZeroAddress) {
+        const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+        this.poolCache.track({ address: poolAddress, kind: 'v3', dex: dex.name, token0, token1, fee });
+      }
+    }
+
+    return poolAddress === ethers.ZeroAddress ? null : poolAddress;
+  }
+
+  private reversePool(pool: ConstantProductPool): ConstantProductPool {
+    return { reserveIn: pool.reserveOut, reserveOut: pool.reserveIn, feeBps: pool.feeBps };
+  }
+
+  private getProbeAmount(token: string): bigint {
+    return ethers.parseUnits('1', tokenRegistry.getDecimals(token, this.chain));
+  }
+
+  // Remember the best token -> quote token rate seen this scan, in raw units on both sides
+  private updateQuoteRates(quotes: PairQuotes): void {
+    const quoteToken = this.getQuoteToken();
+
+    const update = (token: string, amountIn: bigint, dexPrices: any[]) => {
+      const best = dexPrices.reduce((max: bigint, quote: any) => {
+        const amountOut = BigInt(quote.amountOut);
+        return amountOut > max ? amountOut : max;
+      }, 0n);
+      if (best > 0n) {
+        this.quoteRates.set(token.toLowerCase(), { amountIn, amountOut: best });
+      }
+    };
+
+    if (quotes.tokenB.toLowerCase() === quoteToken.toLowerCase()) {
+      update(quotes.tokenA, quotes.amountInA, quotes.forward);
+    } else if (quotes.tokenA.toLowerCase() === quoteToken.toLowerCase()) {
+      update(quotes.tokenB, quotes.amountInB, quotes.reverse);
+    }
+  }
+
+  // Raw token amount -> raw quote-currency amount, or null if the token has no rate yet
+  private toQuoteCurrency(token: string, amount: bigint): bigint | null {
+    if (token.toLowerCase() === this.getQuoteToken().toLowerCase()) return amount;
+
+    const rate = this.quoteRates.get(token.toLowerCase());
+    if (!rate) return null;
+    return (amount * rate.amountOut) / rate.amountIn;
+  }
+
+  // Raw quote-currency amount -> raw token amount, the inverse of toQuoteCurrency
+  private fromQuoteCurrency(token: string, amount: bigint): bigint | null {
+    if (token.toLowerCase() === this.getQuoteToken().toLowerCase()) return amount;
+
+    const rate = this.quoteRates.get(token.toLowerCase());
+    if (!rate || rate.amountOut === 0n) return null;
+    return (amount * rate.amountIn) / rate.amountOut;
+  }
+
+  /**
+   * Run a route through the cost model with the flash loan provider that leaves it the most profit.
+   * Returns the breakdown in the route token plus net profit and costs in the quote currency,
+   * and why every other provider was passed over.
+   */
+  private async priceRoute(amountIn: bigint, legs: CostLeg[]): Promise<{
+    breakdown: CostBreakdown;
+    netProfit: bigint;
+    costs: OpportunityCosts;
+    flashLoanRejections: FlashLoanRejection[];
+  } | null> {
+    const token = legs[0].tokenIn;
+    const wrappedNative = tokenRegistry.getBySymbol(this.deployment.wrappedNative, this.chain)!.address;
+    const routeTokens = legs.flatMap(leg => [leg.tokenIn, leg.tokenOut]);
+
+    const selection = await this.flashLoanSelector.select(token, amountIn, routeTokens, terms => this.costModel.evaluate(
+      amountIn,
+      legs,
+      terms,
+      wei => {
+        const gasInQuote = this.toQuoteCurrency(wrappedNative, wei);
+        return gasInQuote === null ? null : this.fromQuoteCurrency(token, gasInQuote);
+      }
+    ));
+
+    const breakdown = selection.best?.breakdown;
+    const netProfit = breakdown ? this.toQuoteCurrency(token, breakdown.netProfit) : null;
+    if (!breakdown || netProfit === null) {
+      const reasons = selection.rejections.map(rejection => `${rejection.provider}: ${rejection.reason}`).join('; ');
+      logger.debug(`No flash loan provider can price ${tokenRegistry.getSymbol(token, this.chain)} on ${this.chain} (${reasons}), skipping`);
+      return null;
+    }
+
+    const inQuote = (amount: bigint) => this.formatQuote(this.toQuoteCurrency(token, amount)!);
+    const costs: OpportunityCosts = {
+      currency: BOT_CONFIG.QUOTE_CURRENCY,
+      grossProfit: inQuote(breakdown.grossProfit),
+      dexFees: inQuote(breakdown.dexFees),
+      priceImpact: inQuote(breakdown.priceImpact),
+      flashLoanFee: inQuote(breakdown.flashLoanFee),
+      gasCost: inQuote(breakdown.gasCost),
+      slippageBuffer: inQuote(breakdown.slippageBuffer),
+      netProfit: this.formatQuote(netProfit),
+      gasUnits: breakdown.gasUnits.toString(),
+      gasPriceGwei: ethers.formatUnits(breakdown.gasPrice, 'gwei'),
+      flashLoanProvider: breakdown.flashLoanProvider
+    };
+
+    return { breakdown, netProfit, costs, flashLoanRejections: selection.rejections };
+  }
+
+  private toCostLeg(tokenIn: string, tokenOut: string, amountIn: bigint, quote: any): CostLeg {
+    return {
+      tokenIn,
+      tokenOut,
+      amountIn,
+      amountOut: BigInt(quote.amountOut),
+      fee: quote.fee,
+      spotAmountOut: quote.spotAmountOut !== undefined ? BigInt(quote.spotAmountOut) : undefined,
+      gasUnits: quote.gasEstimate !== undefined ? BigInt(quote.gasEstimate) : undefined
+    };
+  }
+
+  private getQuoteToken(): string {
+    const symbol = QUOTE_CURRENCY_TOKENS[BOT_CONFIG.QUOTE_CURRENCY];
+    return tokenRegistry.getBySymbol(symbol, this.chain)!.address;
+  }
+
+  private formatQuote(amount: bigint): string {
+    return ethers.formatUnits(amount, tokenRegistry.getDecimals(this.getQuoteToken(), this.chain));
+  }
+
+  // Percentage with 4 decimal places of precision, computed in integer math
+  private percentage(part: bigint, whole: bigint): number {
+    if (whole === 0n) return 0;
+    return Number((part * 1_000_000n) / whole) / 10_000;
+  }
+
+  // Human readable tokenOut per tokenIn, correcting for each token's decimals
+  private toPrice(tokenIn: string, tokenOut: string, amountIn: bigint, amountOut: bigint): number {
+    return parseFloat(tokenRegistry.format(tokenOut, amountOut, this.chain)) / parseFloat(tokenRegistry.format(tokenIn, amountIn, this.chain));
+  }
+
+  private calculatePriority(profitPercentage: number, netProfit: bigint): number {
     // Higher priority for higher profit percentage and net profit
-    return Math.floor(profitPercentage * 10 + netProfit * 100);
+    return Math.floor(profitPercentage * 10 + parseFloat(this.formatQuote(netProfit)) * 100);
   }
 
   getOpportunities(): ArbitrageOpportunity[] {
@@ -224,13 +1047,58 @@ export class OpportunityFinder {
       .slice(0, 10); // Return top 10 opportunities
   }
 
-  getBestOpportunity(): ArbitrageOpportunity | null {
-    const opportunities = this.getOpportunities();
-    return opportunities.length > 0 ? opportunities[0] : null;
+  // The best opportunity the executor contract can trade, V4 routes are only reported
+  getBestOpportunity(excluded: ReadonlySet<string> = new Set()): ArbitrageOpportunity | null {
+    const executable = Array.from(this.opportunities.values())
+      .filter(opportunity => !excluded.has(opportunity.id) && !opportunity.hops?.some(hop => hop.poolKey));
+    return executable.sort((a, b) => b.priority - a.priority)[0] ?? null;
   }
 
   removeOpportunity(id: string): void {
+    const opportunity = this.opportunities.get(id);
+    if (!opportunity) return;
+
     this.opportunities.delete(id);
+    this.publish({ type: 'opportunity:expired', opportunity, reason: 'removed' });
+  }
+
+  /**
+   * Async iterator over opportunity events. Each subscriber gets its own bounded
+   * buffer, so a slow consumer loses old events instead of stalling the scan.
+   */
+  subscribe(options: OpportunityStreamOptions = {}): OpportunityStream {
+    const stream = new OpportunityStream(options, () => this.streams.delete(stream));
+    this.streams.add(stream);
+    return stream;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<OpportunityEvent> {
+    return this.subscribe();
+  }
+
+  private publish(event: OpportunityEvent): void {
+    for (const stream of this.streams) {
+      stream.push(event);
+    }
+
+    // A throwing listener must not abort the scan that produced the event
+    try {
+      if (event.type === 'opportunity:expired') {
+        this.emit(event.type, event.opportunity, event.reason!);
+      } else {
+        this.emit(event.type, event.opportunity);
+      }
+    } catch (error) {
+      logger.error(`Error in ${event.type} listener:`, error);
+    }
+  }
+
+  getNetwork(): NetworkName {
+    return this.network;
+  }
+
+  getMulticallStats(): MulticallStats {
+    return this.multicall.getStats();
   }
 
   private sleep(ms: number): Promise<void> {
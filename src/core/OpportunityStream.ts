@@ -0,0 +1,106 @@
+import type { ArbitrageOpportunity } from './OpportunityFinder';
+
+export type OpportunityEventType = 'opportunity:new' | 'opportunity:updated' | 'opportunity:expired';
+
+export type OpportunityExpiryReason = 'expired' | 'invalidated' | 'removed';
+
+export interface OpportunityEvent {
+  type: OpportunityEventType;
+  opportunity: ArbitrageOpportunity;
+  reason?: OpportunityExpiryReason; // Only on opportunity:expired
+}
+
+export interface OpportunityStreamOptions {
+  bufferSize?: number; // Events held for a slow consumer before the oldest are dropped
+  events?: OpportunityEventType[]; // Defaults to all three
+}
+
+/**
+ * Bounded async iterator over opportunity events.
+ * Pushing never blocks the finder: queued events for the same opportunity are coalesced
+ * into the latest one, and once the buffer is full the oldest event is dropped.
+ */
+export class OpportunityStream implements AsyncIterableIterator<OpportunityEvent> {
+  private queue: OpportunityEvent[] = [];
+  private waiting: ((result: IteratorResult<OpportunityEvent>) => void) | null = null;
+  private closed: boolean = false;
+  private dropped: number = 0;
+  private bufferSize: number;
+  private events: Set<OpportunityEventType>;
+  private onClose: () => void;
+
+  constructor(options: OpportunityStreamOptions, onClose: () => void) {
+    this.bufferSize = Math.max(1, options.bufferSize ?? 100);
+    this.events = new Set(options.events ?? ['opportunity:new', 'opportunity:updated', 'opportunity:expired']);
+    this.onClose = onClose;
+  }
+
+  push(event: OpportunityEvent): void {
+    if (this.closed || !this.events.has(event.type)) return;
+
+    // A consumer already waiting gets the event straight away
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: event, done: false });
+      return;
+    }
+
+    const index = this.queue.findIndex(queued => queued.opportunity.id === event.opportunity.id);
+    if (index !== -1) {
+      const queued = this.queue[index];
+      if (queued.type === 'opportunity:new' && event.type === 'opportunity:expired') {
+        // Never delivered, never needs retracting
+        this.queue.splice(index, 1);
+      } else {
+        // New stays new with the latest numbers, anything else becomes the latest event
+        this.queue[index] = queued.type === 'opportunity:new' && event.type === 'opportunity:updated'
+          ? { ...event, type: 'opportunity:new' }
+          : event;
+      }
+      return;
+    }
+
+    if (this.queue.length >= this.bufferSize) {
+      this.queue.shift();
+      this.dropped++;
+    }
+    this.queue.push(event);
+  }
+
+  next(): Promise<IteratorResult<OpportunityEvent>> {
+    const event = this.queue.shift();
+    if (event) return Promise.resolve({ value: event, done: false });
+    if (this.closed) return Promise.resolve({ value: undefined, done: true });
+
+    return new Promise(resolve => {
+      this.waiting = resolve;
+    });
+  }
+
+  return(): Promise<IteratorResult<OpportunityEvent>> {
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<OpportunityEvent> {
+    return this;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.queue = [];
+    this.onClose();
+
+    if (this.waiting) {
+      this.waiting({ value: undefined, done: true });
+      this.waiting = null;
+    }
+  }
+
+  // Events discarded because the consumer fell more than bufferSize behind
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+}
@@ -0,0 +1,420 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { BOT_CONFIG, CHAIN_DEPLOYMENTS, ChainDeployment, NETWORK_CONFIG, NetworkName, QUOTE_CURRENCY_TOKENS, V2DexConfig, V3DexConfig } from '../config/constants';
+import { MulticallBatcher } from './MulticallBatcher';
+import { tokenRegistry } from './TokenRegistry';
+
+export interface DiscoveredPool {
+  address: string;
+  dex: string;
+  kind: 'v2' | 'v3' | 'solidly';
+  token0: string;
+  token1: string;
+  fee: number;
+  liquidity: string; // both sides, raw quote-currency units
+}
+
+type PoolCandidate = Omit<DiscoveredPool, 'liquidity'>;
+type PoolSource = [name: string, discover: () => Promise<PoolCandidate[]>];
+
+interface RegistrySnapshot {
+  chain: string;
+  lastBlock: { [factory: string]: number }; // last block scanned for V3 PoolCreated logs
+  v2PairCounts: { [factory: string]: number }; // allPairs entries walked so far
+  pools: DiscoveredPool[];
+  unregistered?: PoolCandidate[]; // Seen but too shallow or unmeasurable, oldest check first
+}
+
+/**
+ * Discovers pools from the DEX factories and keeps a registry of the ones deep enough to trade.
+ * V2 factories are walked through allPairs, V3 pools come from PoolCreated logs, and the
+ * registry is persisted with its cursors so every run only processes what is new. Pools seen
+ * below the threshold, or that couldn't be measured, are kept too and re-measured a slice per
+ * run, so ones that deepen later still make it into the registry.
+ */
+export class PairDiscovery {
+  private provider: ethers.JsonRpcProvider;
+  private multicall: MulticallBatcher;
+  private chain: string;
+  private deployment: ChainDeployment;
+  private registryPath: string;
+  private pools: Map<string, DiscoveredPool> = new Map();
+  private lastBlock: { [factory: string]: number } = {}; // last block scanned for PoolCreated logs, per V3 factory
+  private v2PairCounts: { [factory: string]: number } = {};
+  private unregistered: PoolCandidate[] = []; // Oldest check first
+  private isSyncing: boolean = false;
+  private syncTimer: NodeJS.Timeout | null = null;
+
+  private readonly V2_FACTORY_ABI = [
+    'function allPairsLength() external view returns (uint)',
+    'function allPairs(uint) external view returns (address pair)',
+    'function getPair(address tokenA, address tokenB) external view returns (address pair)'
+  ];
+
+  private readonly V2_PAIR_ABI = [
+    'function token0() external view returns (address)',
+    'function token1() external view returns (address)',
+    'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'
+  ];
+
+  private readonly V3_FACTORY_ABI = [
+    'event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)',
+    'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)'
+  ];
+
+  private readonly SOLIDLY_FACTORY_ABI = [
+    'function getPool(address tokenA, address tokenB, bool stable) external view returns (address pool)',
+    'function getFee(address pool, bool stable) external view returns (uint256)'
+  ];
+
+  private readonly ERC20_BALANCE_ABI = [
+    'function balanceOf(address account) external view returns (uint256)'
+  ];
+
+  private readonly v3FactoryInterface = new ethers.Interface(this.V3_FACTORY_ABI);
+
+  constructor(provider: ethers.JsonRpcProvider, network: NetworkName = 'ETHEREUM') {
+    const deployment = CHAIN_DEPLOYMENTS[network];
+    if (!deployment) {
+      throw new Error(`No DEX deployments configured for ${network}`);
+    }
+
+    this.provider = provider;
+    this.multicall = MulticallBatcher.forProvider(provider);
+    this.chain = NETWORK_CONFIG[network].name.toLowerCase();
+    this.deployment = deployment;
+
+    // Ethereum keeps the configured file, other chains get their own next to it
+    const file = BOT_CONFIG.PAIR_DISCOVERY.REGISTRY_PATH;
+    this.registryPath = network === 'ETHEREUM' ? file : file.replace(/(\.json)?$/, `-${network.toLowerCase()}.json`);
+  }
+
+  async start(): Promise<void> {
+    await this.load();
+    logger.info(`🧭 Pair discovery started on ${this.chain} with ${this.pools.size} pools from the registry`);
+
+    // Syncing can take a while on a fresh registry, the finder uses what is there meanwhile
+    this.runSync();
+    this.syncTimer = setInterval(() => this.runSync(), BOT_CONFIG.PAIR_DISCOVERY.INTERVAL);
+  }
+
+  stop(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  getPools(): DiscoveredPool[] {
+    return Array.from(this.pools.values());
+  }
+
+  /**
+   * Token pairs with a registered pool on at least two DEXes
+   */
+  getPairs(): { tokenA: string; tokenB: string }[] {
+    const dexesByPair = new Map<string, { tokenA: string; tokenB: string; dexes: Set<string> }>();
+
+    for (const pool of this.pools.values()) {
+      const key = `${pool.token0.toLowerCase()}:${pool.token1.toLowerCase()}`;
+      let entry = dexesByPair.get(key);
+      if (!entry) {
+        entry = { tokenA: pool.token0, tokenB: pool.token1, dexes: new Set() };
+        dexesByPair.set(key, entry);
+      }
+      entry.dexes.add(pool.dex);
+    }
+
+    return Array.from(dexesByPair.values())
+      .filter(entry => entry.dexes.size >= 2)
+      .map(({ tokenA, tokenB }) => ({ tokenA, tokenB }));
+  }
+
+  async sync(): Promise<void> {
+    if (this.isSyncing) return;
+    this.isSyncing = true;
+
+    try {
+      const candidates = new Map<string, PoolCandidate>();
+      const add = (pool: PoolCandidate | null) => {
+        if (pool) candidates.set(pool.address.toLowerCase(), pool);
+      };
+
+      // Registered pools are re-measured so ones that drained drop out, and the longest waiting
+      // unregistered ones get another chance
+      this.pools.forEach(pool => add(pool));
+      const recheck = this.unregistered.slice(0, BOT_CONFIG.PAIR_DISCOVERY.RECHECK_PER_RUN);
+      recheck.forEach(add);
+
+      // A failing source is skipped this run, the others still land in the registry
+      const sources: PoolSource[] = [
+        ['configured tokens', () => this.findKnownTokenPools()],
+        ...this.deployment.v2.map((dex): PoolSource => [dex.name, () => this.walkV2Factory(dex)]),
+        ...this.deployment.v3.map((dex): PoolSource => [dex.name, () => this.scanV3PoolCreated(dex)])
+      ];
+      for (const [name, discover] of sources) {
+        try {
+          (await discover()).forEach(add);
+        } catch (error) {
+          logger.warn(`Pair discovery from ${name} failed:`, error);
+        }
+      }
+
+      const before = this.pools.size;
+      this.pools = await this.filterByLiquidity(Array.from(candidates.values()));
+
+      // Whatever didn't make it goes to the back of the queue
+      const waiting = this.unregistered.slice(recheck.length).filter(pool => !this.pools.has(pool.address.toLowerCase()));
+      const queued = new Set(waiting.map(pool => pool.address.toLowerCase()));
+      for (const [address, pool] of candidates) {
+        if (!this.pools.has(address) && !queued.has(address)) waiting.push(this.toCandidate(pool));
+      }
+      this.unregistered = waiting;
+      await this.save();
+
+      logger.info(`🧭 Pair discovery: ${candidates.size} pools checked, ${this.pools.size} above liquidity threshold (was ${before}), ${this.unregistered.length} below it, ${this.getPairs().length} pairs on 2+ DEXes`);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  private runSync(): void {
+    this.sync().catch(error => logger.error('Pair discovery failed:', error));
+  }
+
+  // Direct getPair/getPool lookups for the configured tokens, so they are covered before the walk gets to them
+  private async findKnownTokenPools(): Promise<PoolCandidate[]> {
+    const tokens = this.deployment.tokens.map(symbol => tokenRegistry.getBySymbol(symbol, this.chain)!.address);
+    const lookups: Promise<PoolCandidate | null>[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      for (let j = i + 1; j < tokens.length; j++) {
+        const [token0, token1] = tokens[i].toLowerCase() < tokens[j].toLowerCase()
+          ? [tokens[i], tokens[j]]
+          : [tokens[j], tokens[i]];
+
+        for (const dex of this.deployment.v2) {
+          lookups.push(this.lookupPool(dex.factory, this.V2_FACTORY_ABI, 'getPair', [token0, token1])
+            .then((address): PoolCandidate | null => address ? { address, dex: dex.name, kind: 'v2', token0, token1, fee: dex.fee } : null));
+        }
+        for (const dex of this.deployment.v3) {
+          for (const fee of dex.fees) {
+            lookups.push(this.lookupPool(dex.factory, this.V3_FACTORY_ABI, 'getPool', [token0, token1, Math.round(fee * 1_000_000)])
+              .then((address): PoolCandidate | null => address ? { address, dex: dex.name, kind: 'v3', token0, token1, fee } : null));
+          }
+        }
+        for (const dex of this.deployment.solidly || []) {
+          for (const stable of [true, false]) {
+            lookups.push(this.lookupPool(dex.factory, this.SOLIDLY_FACTORY_ABI, 'getPool', [token0, token1, stable])
+              .then(async (address): Promise<PoolCandidate | null> => {
+                if (!address) return null;
+                const [feeBps] = await this.multicall.call(dex.factory, this.SOLIDLY_FACTORY_ABI, 'getFee', [address, stable]);
+                return { address, dex: dex.name, kind: 'solidly', token0, token1, fee: Number(feeBps) / 10_000 };
+              })
+              .catch(() => null));
+          }
+        }
+      }
+    }
+
+    return (await Promise.all(lookups)).filter((pool): pool is PoolCandidate => pool !== null);
+  }
+
+  private async lookupPool(factory: string, abi: string[], method: string, args: any[]): Promise<string | null> {
+    try {
+      const [address] = await this.multicall.call(factory, abi, method, args);
+      return address === ethers.ZeroAddress ? null : address;
+    } catch {
+      return null;
+    }
+  }
+
+  // Walk allPairs from where the last run stopped
+  private async walkV2Factory(dex: V2DexConfig): Promise<PoolCandidate[]> {
+    const [length] = await this.multicall.call(dex.factory, this.V2_FACTORY_ABI, 'allPairsLength');
+    const from = this.v2PairCounts[dex.factory] || 0;
+    const to = Math.min(Number(length), from + BOT_CONFIG.PAIR_DISCOVERY.PAIRS_PER_RUN);
+    if (from >= to) return [];
+
+    const indexes = Array.from({ length: to - from }, (_, i) => from + i);
+    const pairs = await Promise.all(indexes.map(async index => {
+      try {
+        const [address] = await this.multicall.call(dex.factory, this.V2_FACTORY_ABI, 'allPairs', [index]);
+        const [[token0], [token1]] = await Promise.all([
+          this.multicall.call(address, this.V2_PAIR_ABI, 'token0'),
+          this.multicall.call(address, this.V2_PAIR_ABI, 'token1')
+        ]);
+        return { address, dex: dex.name, kind: 'v2', token0, token1, fee: dex.fee } as PoolCandidate;
+      } catch (error) {
+        logger.debug(`Failed to read ${dex.name} pair #${index}:`, error);
+        return null;
+      }
+    }));
+
+    this.v2PairCounts[dex.factory] = to;
+    logger.debug(`${dex.name}: walked pairs ${from}-${to - 1} of ${length}`);
+    return pairs.filter((pool): pool is PoolCandidate => pool !== null);
+  }
+
+  // PoolCreated logs from the last processed block, in getLogs-sized chunks
+  private async scanV3PoolCreated(dex: V3DexConfig): Promise<PoolCandidate[]> {
+    const { LOG_BLOCK_RANGE, BLOCKS_PER_RUN, START_BLOCK } = BOT_CONFIG.PAIR_DISCOVERY;
+    const lastBlock = this.lastBlock[dex.factory] ?? (START_BLOCK ?? dex.deployBlock) - 1;
+    const head = await this.provider.getBlockNumber();
+    const toBlock = Math.min(head, lastBlock + BLOCKS_PER_RUN);
+    const topic = this.v3FactoryInterface.getEvent('PoolCreated')!.topicHash;
+    const pools: PoolCandidate[] = [];
+
+    for (let fromBlock = lastBlock + 1; fromBlock <= toBlock; fromBlock += LOG_BLOCK_RANGE) {
+      const chunkEnd = Math.min(fromBlock + LOG_BLOCK_RANGE - 1, toBlock);
+      const logs = await this.provider.getLogs({
+        address: dex.factory,
+        topics: [topic],
+        fromBlock,
+        toBlock: chunkEnd
+      });
+
+      for (const log of logs) {
+        const parsed = this.v3FactoryInterface.parseLog({ topics: [...log.topics], data: log.data });
+        if (!parsed) continue;
+
+        // Only tiers the finder can quote are worth tracking
+        const fee = Number(parsed.args.fee) / 1_000_000;
+        if (!dex.fees.includes(fee)) continue;
+
+        pools.push({
+          address: parsed.args.pool,
+          dex: dex.name,
+          kind: 'v3',
+          token0: parsed.args.token0,
+          token1: parsed.args.token1,
+          fee
+        });
+      }
+
+      // Advance per chunk so a failure part-way keeps the progress made
+      this.lastBlock[dex.factory] = chunkEnd;
+    }
+
+    return pools;
+  }
+
+  /**
+   * Value each pool in the quote currency and keep the ones above MIN_LIQUIDITY.
+   * Tokens are priced through their deepest direct pool against the quote token,
+   * pools where neither side can be priced are dropped.
+   */
+  private async filterByLiquidity(candidates: PoolCandidate[]): Promise<Map<string, DiscoveredPool>> {
+    const quoteToken = tokenRegistry.getBySymbol(QUOTE_CURRENCY_TOKENS[BOT_CONFIG.QUOTE_CURRENCY], this.chain);
+    if (!quoteToken) {
+      throw new Error(`Quote token ${QUOTE_CURRENCY_TOKENS[BOT_CONFIG.QUOTE_CURRENCY]} is not registered on ${this.chain}`);
+    }
+    const quote = quoteToken.address.toLowerCase();
+    const minLiquidity = ethers.parseUnits(BOT_CONFIG.PAIR_DISCOVERY.MIN_LIQUIDITY.toString(), quoteToken.decimals);
+
+    const balances = await Promise.all(candidates.map(pool => this.readBalances(pool).catch(() => null)));
+
+    const rates = new Map<string, { quoteReserve: bigint; tokenReserve: bigint }>();
+    candidates.forEach((pool, index) => {
+      const reserves = balances[index];
+      if (!reserves) return;
+
+      let token: string, tokenReserve: bigint, quoteReserve: bigint;
+      if (pool.token0.toLowerCase() === quote) {
+        [token, quoteReserve, tokenReserve] = [pool.token1.toLowerCase(), reserves[0], reserves[1]];
+      } else if (pool.token1.toLowerCase() === quote) {
+        [token, quoteReserve, tokenReserve] = [pool.token0.toLowerCase(), reserves[1], reserves[0]];
+      } else {
+        return;
+      }
+
+      const best = rates.get(token);
+      if (tokenReserve > 0n && (!best || quoteReserve > best.quoteReserve)) {
+        rates.set(token, { quoteReserve, tokenReserve });
+      }
+    });
+
+    const value = (token: string, amount: bigint): bigint | null => {
+      if (token.toLowerCase() === quote) return amount;
+      const rate = rates.get(token.toLowerCase());
+      return rate ? (amount * rate.quoteReserve) / rate.tokenReserve : null;
+    };
+
+    const pools = new Map<string, DiscoveredPool>();
+    candidates.forEach((pool, index) => {
+      const reserves = balances[index];
+      if (!reserves) return;
+
+      // Twice the shallower priced side, so one mispriced token can't inflate the depth
+      const sides = [value(pool.token0, reserves[0]), value(pool.token1, reserves[1])]
+        .filter((side): side is bigint => side !== null);
+      if (sides.length === 0) return;
+
+      const liquidity = 2n * sides.reduce((min, side) => side < min ? side : min);
+      if (liquidity >= minLiquidity) {
+        pools.set(pool.address.toLowerCase(), { ...pool, liquidity: liquidity.toString() });
+      }
+    });
+
+    return pools;
+  }
+
+  // Without the measured liquidity of a registered pool
+  private toCandidate({ address, dex, kind, token0, token1, fee }: PoolCandidate): PoolCandidate {
+    return { address, dex, kind, token0, token1, fee };
+  }
+
+  // V2 reserves, or the token balances held by a V3 or Solidly pool
+  private async readBalances(pool: PoolCandidate): Promise<[bigint, bigint]> {
+    if (pool.kind === 'v2') {
+      const [reserve0, reserve1] = await this.multicall.call(pool.address, this.V2_PAIR_ABI, 'getReserves');
+      return [reserve0, reserve1];
+    }
+
+    const [[balance0], [balance1]] = await Promise.all([
+      this.multicall.call(pool.token0, this.ERC20_BALANCE_ABI, 'balanceOf', [pool.address]),
+      this.multicall.call(pool.token1, this.ERC20_BALANCE_ABI, 'balanceOf', [pool.address])
+    ]);
+    return [balance0, balance1];
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const snapshot: RegistrySnapshot = JSON.parse(await fs.readFile(this.registryPath, 'utf8'));
+      if (snapshot.chain !== this.chain) {
+        logger.warn(`Pool registry at ${this.registryPath} is for ${snapshot.chain}, starting fresh`);
+        return;
+      }
+
+      // Registries written before V3 cursors were kept per factory resume on the chain's first deployment
+      this.lastBlock = typeof snapshot.lastBlock === 'number' && this.deployment.v3.length > 0
+        ? { [this.deployment.v3[0].factory]: snapshot.lastBlock }
+        : snapshot.lastBlock;
+      this.v2PairCounts = snapshot.v2PairCounts;
+      this.pools = new Map(snapshot.pools.map(pool => [pool.address.toLowerCase(), pool]));
+      this.unregistered = snapshot.unregistered || [];
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn('Could not read pool registry, starting fresh:', error);
+      }
+    }
+  }
+
+  private async save(): Promise<void> {
+    const file = this.registryPath;
+    const snapshot: RegistrySnapshot = {
+      chain: this.chain,
+      lastBlock: this.lastBlock,
+      v2PairCounts: this.v2PairCounts,
+      pools: this.getPools(),
+      unregistered: this.unregistered
+    };
+
+    // Write then rename, so a crash mid-write never leaves a truncated registry
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(snapshot, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+  }
+}
@@ -0,0 +1,110 @@
+import { ethers } from 'ethers';
+
+export type PoolKind = 'v2' | 'v3' | 'solidly' | 'v4';
+
+export interface TrackedPool {
+  address: string; // For V4 pools, the PoolManager that emits their events
+  poolId?: string; // V4 only
+  kind: PoolKind;
+  dex: string;
+  token0: string;
+  token1: string;
+  fee?: number;
+}
+
+export interface PoolState {
+  reserve0?: bigint; // V2, Solidly
+  reserve1?: bigint; // V2, Solidly
+  sqrtPriceX96?: bigint; // V3, V4
+  liquidity?: bigint; // V3, V4
+  tick?: number; // V3, V4
+  blockNumber: number;
+}
+
+/**
+ * In-memory state of the pools the finder quotes, kept current from on-chain events.
+ * V2 pairs and Solidly pools emit Sync with the new reserves after every change (Solidly's
+ * reserves are uint256, so its topic differs), V3 pools emit Swap with the new price,
+ * liquidity and tick - so one getLogs per block replaces per-pair polling.
+ * V4 pools all live in the PoolManager, so their Swap events are matched on the pool id.
+ */
+export class PoolStateCache {
+  private pools: Map<string, TrackedPool> = new Map();
+  private states: Map<string, PoolState> = new Map();
+
+  private readonly iface = new ethers.Interface([
+    'event Sync(uint112 reserve0, uint112 reserve1)',
+    'event Sync(uint256 reserve0, uint256 reserve1)',
+    'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+    'event Swap(bytes32 indexed id, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)'
+  ]);
+
+  readonly SYNC_TOPIC = this.iface.getEvent('Sync(uint112,uint112)')!.topicHash;
+  readonly SOLIDLY_SYNC_TOPIC = this.iface.getEvent('Sync(uint256,uint256)')!.topicHash;
+  readonly V3_SWAP_TOPIC = this.iface.getEvent('Swap(address,address,int256,int256,uint160,uint128,int24)')!.topicHash;
+  readonly V4_SWAP_TOPIC = this.iface.getEvent('Swap(bytes32,address,int128,int128,uint160,uint128,int24,uint24)')!.topicHash;
+
+  track(pool: TrackedPool): void {
+    const key = (pool.poolId || pool.address).toLowerCase();
+    if (!this.pools.has(key)) {
+      this.pools.set(key, pool);
+    }
+  }
+
+  // Pool by address, or by pool id for V4
+  getPool(address: string): TrackedPool | null {
+    return this.pools.get(address.toLowerCase()) || null;
+  }
+
+  getTrackedAddresses(): string[] {
+    return Array.from(new Set(Array.from(this.pools.values()).map(pool => pool.address)));
+  }
+
+  getState(address: string): PoolState | null {
+    return this.states.get(address.toLowerCase()) || null;
+  }
+
+  setReserves(address: string, reserve0: bigint, reserve1: bigint, blockNumber: number): void {
+    this.states.set(address.toLowerCase(), { reserve0, reserve1, blockNumber });
+  }
+
+  /**
+   * Apply Sync / Swap logs and return the addresses (V4: pool ids) of the pools whose state changed
+   */
+  applyLogs(logs: ethers.Log[]): Set<string> {
+    const changed = new Set<string>();
+
+    for (const log of logs) {
+      const pool = log.topics[0] === this.V4_SWAP_TOPIC ? this.getPool(log.topics[1]) : this.getPool(log.address);
+      if (!pool) continue;
+
+      const parsed = this.iface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+
+      const key = (pool.poolId || pool.address).toLowerCase();
+      if (parsed.name === 'Sync' && (pool.kind === 'v2' || pool.kind === 'solidly')) {
+        this.states.set(key, {
+          reserve0: parsed.args.reserve0,
+          reserve1: parsed.args.reserve1,
+          blockNumber: log.blockNumber
+        });
+        changed.add(pool.address);
+      } else if (parsed.name === 'Swap' && (pool.kind === 'v3' || pool.kind === 'v4')) {
+        this.states.set(key, {
+          sqrtPriceX96: parsed.args.sqrtPriceX96,
+          liquidity: parsed.args.liquidity,
+          tick: Number(parsed.args.tick),
+          blockNumber: log.blockNumber
+        });
+        changed.add(pool.poolId || pool.address);
+      }
+    }
+
+    return changed;
+  }
+
+  clear(): void {
+    this.pools.clear();
+    this.states.clear();
+  }
+}
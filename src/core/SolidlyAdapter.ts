@@ -0,0 +1,119 @@
+import { ethers } from 'ethers';
+import { SolidlyDexConfig } from '../config/constants';
+import { getSolidlySpotAmountOut } from '../utils/ammMath';
+import { MulticallBatcher } from './MulticallBatcher';
+import { PoolStateCache } from './PoolStateCache';
+
+export interface SolidlyRoute {
+  from: string;
+  to: string;
+  stable: boolean;
+  factory: string;
+}
+
+export interface SolidlyQuote {
+  dex: string;
+  router: string;
+  pool: string;
+  stable: boolean;
+  fee: number; // The pool's own fee as a fraction
+  amountOut: bigint;
+  spotAmountOut: bigint;
+}
+
+interface SolidlyPoolInfo {
+  address: string;
+  stable: boolean;
+  fee: number;
+}
+
+/**
+ * Quotes Solidly-fork pools (Velodrome, Aerodrome). Every pair can have a stable pool
+ * (x³y + y³x, for correlated assets) and a volatile one (x·y), each with a fee the factory
+ * sets per pool, so both are looked up and quoted through the router's getAmountsOut.
+ */
+export class SolidlyAdapter {
+  private multicall: MulticallBatcher;
+  private poolCache: PoolStateCache;
+  private pools: Map<string, SolidlyPoolInfo | null> = new Map(); // factory:tokenA:tokenB:stable -> pool
+
+  private readonly ROUTER_ABI = [
+    'function getAmountsOut(uint256 amountIn, tuple(address from, address to, bool stable, address factory)[] routes) external view returns (uint256[] amounts)'
+  ];
+
+  private readonly FACTORY_ABI = [
+    'function getPool(address tokenA, address tokenB, bool stable) external view returns (address pool)',
+    'function getFee(address pool, bool stable) external view returns (uint256)'
+  ];
+
+  private readonly POOL_ABI = [
+    'function metadata() external view returns (uint256 dec0, uint256 dec1, uint256 r0, uint256 r1, bool st, address t0, address t1)'
+  ];
+
+  constructor(multicall: MulticallBatcher, poolCache: PoolStateCache) {
+    this.multicall = multicall;
+    this.poolCache = poolCache;
+  }
+
+  /**
+   * Quotes from the pair's stable and volatile pools, whichever exist
+   */
+  async getQuotes(dex: SolidlyDexConfig, tokenIn: string, tokenOut: string, amountIn: bigint): Promise<SolidlyQuote[]> {
+    const quotes = await Promise.all([true, false].map(async stable => {
+      const pool = await this.getPool(dex, tokenIn, tokenOut, stable);
+      if (!pool) return null;
+
+      const [[amounts], [dec0, dec1, reserve0, reserve1]] = await Promise.all([
+        this.quoteRoute(dex, amountIn, [{ from: tokenIn, to: tokenOut, stable, factory: dex.factory }]),
+        this.multicall.call(pool.address, this.POOL_ABI, 'metadata')
+      ]);
+      const amountOut: bigint = amounts[amounts.length - 1];
+      if (amountOut <= 0n) return null;
+
+      const tokenInIsToken0 = tokenIn.toLowerCase() < tokenOut.toLowerCase();
+      const spotAmountOut = getSolidlySpotAmountOut(amountIn, {
+        reserveIn: tokenInIsToken0 ? reserve0 : reserve1,
+        reserveOut: tokenInIsToken0 ? reserve1 : reserve0,
+        decimalsIn: tokenInIsToken0 ? dec0 : dec1,
+        decimalsOut: tokenInIsToken0 ? dec1 : dec0,
+        stable
+      });
+
+      return {
+        dex: `${dex.name} (${stable ? 'stable' : 'volatile'})`,
+        router: dex.router,
+        pool: pool.address,
+        stable,
+        fee: pool.fee,
+        amountOut,
+        spotAmountOut
+      };
+    }));
+
+    return quotes.filter((quote): quote is SolidlyQuote => quote !== null);
+  }
+
+  // Router quote along a route of pools, amounts[i] is the output after hop i
+  quoteRoute(dex: SolidlyDexConfig, amountIn: bigint, routes: SolidlyRoute[]): Promise<ethers.Result> {
+    return this.multicall.call(dex.router, this.ROUTER_ABI, 'getAmountsOut', [amountIn, routes]);
+  }
+
+  // Pool address and fee, looked up once per pair and pool type. Pools are tracked so Sync events re-trigger the pair.
+  private async getPool(dex: SolidlyDexConfig, tokenA: string, tokenB: string, stable: boolean): Promise<SolidlyPoolInfo | null> {
+    const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+    const key = `${dex.factory}:${token0.toLowerCase()}:${token1.toLowerCase()}:${stable}`;
+    if (this.pools.has(key)) return this.pools.get(key)!;
+
+    const [address] = await this.multicall.call(dex.factory, this.FACTORY_ABI, 'getPool', [token0, token1, stable]);
+    if (address === ethers.ZeroAddress) {
+      this.pools.set(key, null);
+      return null;
+    }
+
+    const [feeBps] = await this.multicall.call(dex.factory, this.FACTORY_ABI, 'getFee', [address, stable]);
+    const pool: SolidlyPoolInfo = { address, stable, fee: Number(feeBps) / 10_000 };
+    this.pools.set(key, pool);
+    this.poolCache.track({ address, kind: 'solidly', dex: dex.name, token0, token1, fee: pool.fee });
+    return pool;
+  }
+}
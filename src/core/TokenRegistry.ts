@@ -0,0 +1,111 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { TOKEN_METADATA } from '../config/constants';
+import { MulticallBatcher } from './MulticallBatcher';
+
+export interface TokenMetadata {
+  address: string;
+  symbol: string;
+  decimals: number;
+  chain: string;
+}
+
+/**
+ * Token metadata (decimals, symbol, chain) shared by the finder, executor and price services.
+ * Known tokens come from TOKEN_METADATA; anything else is read from the ERC20 contract once and cached.
+ */
+export class TokenRegistry {
+  private tokens: Map<string, TokenMetadata> = new Map();
+  private pending: Map<string, Promise<TokenMetadata>> = new Map();
+
+  private readonly ERC20_METADATA_ABI = [
+    'function decimals() external view returns (uint8)',
+    'function symbol() external view returns (string)'
+  ];
+
+  constructor() {
+    for (const [chain, tokens] of Object.entries(TOKEN_METADATA)) {
+      for (const token of tokens) {
+        this.register({ ...token, chain });
+      }
+    }
+  }
+
+  register(token: TokenMetadata): void {
+    this.tokens.set(this.key(token.address, token.chain), token);
+  }
+
+  get(address: string, chain: string = 'ethereum'): TokenMetadata | null {
+    return this.tokens.get(this.key(address, chain)) || null;
+  }
+
+  getBySymbol(symbol: string, chain: string = 'ethereum'): TokenMetadata | null {
+    for (const token of this.tokens.values()) {
+      if (token.chain === chain && token.symbol === symbol) return token;
+    }
+    return null;
+  }
+
+  getTokens(chain: string = 'ethereum'): TokenMetadata[] {
+    return Array.from(this.tokens.values()).filter(token => token.chain === chain);
+  }
+
+  /**
+   * Get metadata, falling back to the token contract for unknown addresses
+   */
+  async resolve(address: string, provider: ethers.Provider, chain: string = 'ethereum'): Promise<TokenMetadata> {
+    const known = this.get(address, chain);
+    if (known) return known;
+
+    const key = this.key(address, chain);
+    let lookup = this.pending.get(key);
+    if (!lookup) {
+      lookup = this.fetchMetadata(address, provider, chain).finally(() => this.pending.delete(key));
+      this.pending.set(key, lookup);
+    }
+    return lookup;
+  }
+
+  getDecimals(address: string, chain: string = 'ethereum'): number {
+    const token = this.get(address, chain);
+    if (!token) {
+      throw new Error(`Unknown token ${address} on ${chain} - resolve it first`);
+    }
+    return token.decimals;
+  }
+
+  getSymbol(address: string, chain: string = 'ethereum'): string {
+    return this.get(address, chain)?.symbol || address.slice(0, 8) + '...';
+  }
+
+  // Raw units -> human readable string in the token's own decimals
+  format(address: string, amount: bigint, chain: string = 'ethereum'): string {
+    return ethers.formatUnits(amount, this.getDecimals(address, chain));
+  }
+
+  // Human readable string -> raw units in the token's own decimals
+  parse(address: string, amount: string, chain: string = 'ethereum'): bigint {
+    return ethers.parseUnits(amount, this.getDecimals(address, chain));
+  }
+
+  private async fetchMetadata(address: string, provider: ethers.Provider, chain: string): Promise<TokenMetadata> {
+    const multicall = MulticallBatcher.forProvider(provider);
+    const [[decimals], symbol] = await Promise.all([
+      multicall.call(address, this.ERC20_METADATA_ABI, 'decimals'),
+      multicall.call(address, this.ERC20_METADATA_ABI, 'symbol')
+        .then(([symbol]) => symbol as string)
+        .catch(() => address.slice(0, 8)) // some tokens return bytes32 symbols
+    ]);
+
+    const token: TokenMetadata = { address, symbol, decimals: Number(decimals), chain };
+    this.register(token);
+    logger.debug(`Resolved token metadata for ${symbol} (${address}) on ${chain}`);
+    return token;
+  }
+
+  private key(address: string, chain: string): string {
+    return `${chain}:${address.toLowerCase()}`;
+  }
+}
+
+export const tokenRegistry = new TokenRegistry();
@@ -0,0 +1,156 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { CHAIN_DEPLOYMENTS, NETWORK_CONFIG, NetworkName } from '../config/constants';
+import { tokenRegistry } from './TokenRegistry';
+import { ArbitrageExecutorContract } from './ArbitrageExecutorContract';
+
+export interface TokenProfit {
+  token: string;
+  symbol: string;
+  amount: string; // Raw net flow into the executor, negative for a loss
+  formatted: string;
+  usd: number | null; // Null when the token has no USDC route
+}
+
+export interface RealisedProfit {
+  tokens: TokenProfit[]; // Tokens the executor ended the transaction with more or less of
+  reportedProfit?: string; // ArbitrageExecuted's profit, raw units of the loan asset
+  gasCost: string; // Native currency
+  gasCostUsd: number | null;
+  netUsd: number | null; // Token profits minus gas, null if any of them couldn't be valued
+  blockNumber: number;
+}
+
+/**
+ * What a trade actually made, read from its receipt. ERC20 Transfers in and out of the
+ * executor contract net out to its profit per token - the loan and its repayment cancel,
+ * leaving the premium as a cost. Transfers between the executor and the sending account are
+ * profit withdrawals, not flows of the trade. Values are taken in USD at the trade's own block.
+ */
+export class TradeReceiptParser {
+  private provider: ethers.Provider;
+
+  private readonly TRANSFER_ABI = [
+    'event Transfer(address indexed from, address indexed to, uint256 value)'
+  ];
+
+  private readonly V2_ROUTER_ABI = [
+    'function getAmountsOut(uint256 amountIn, address[] calldata path) external view returns (uint256[] memory amounts)'
+  ];
+
+  private readonly transferInterface = new ethers.Interface(this.TRANSFER_ABI);
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+  }
+
+  async parse(receipt: ethers.TransactionReceipt, executor: string, chain: string = 'ethereum'): Promise<RealisedProfit> {
+    const executorAddress = executor.toLowerCase();
+    const sender = receipt.from.toLowerCase();
+    const flows: Map<string, bigint> = new Map(); // token -> net raw amount
+
+    // Emitted by the arbitrage contract once the loan is repaid
+    const executed = ArbitrageExecutorContract.parseEvents(receipt.logs, executor)
+      .find(event => event.name === 'ArbitrageExecuted');
+    const reportedProfit = executed?.name === 'ArbitrageExecuted' ? executed.profit : undefined;
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() === executorAddress) continue;
+
+      const transfer = this.parseLog(this.transferInterface, log);
+      if (!transfer || transfer.name !== 'Transfer') continue;
+
+      const from = (transfer.args.from as string).toLowerCase();
+      const to = (transfer.args.to as string).toLowerCase();
+      const value = transfer.args.value as bigint;
+      const token = log.address.toLowerCase();
+
+      if (to === executorAddress && from !== sender) {
+        flows.set(token, (flows.get(token) ?? 0n) + value);
+      } else if (from === executorAddress && to !== sender) {
+        flows.set(token, (flows.get(token) ?? 0n) - value);
+      }
+    }
+
+    const network = this.getNetwork(chain);
+    const tokens = await Promise.all(Array.from(flows)
+      .filter(([, amount]) => amount !== 0n)
+      .map(async ([token, amount]): Promise<TokenProfit> => {
+        const metadata = await tokenRegistry.resolve(token, this.provider, chain);
+        return {
+          token: metadata.address,
+          symbol: metadata.symbol,
+          amount: amount.toString(),
+          formatted: ethers.formatUnits(amount, metadata.decimals),
+          usd: network ? await this.toUsd(network, token, amount, receipt.blockNumber) : null
+        };
+      }));
+
+    const gasWei = receipt.gasUsed * receipt.gasPrice;
+    const wrappedNative = network ? tokenRegistry.getBySymbol(CHAIN_DEPLOYMENTS[network]!.wrappedNative, chain) : null;
+    const gasCostUsd = network && wrappedNative ? await this.toUsd(network, wrappedNative.address, gasWei, receipt.blockNumber) : null;
+
+    const values = [...tokens.map(token => token.usd), gasCostUsd];
+    const netUsd = values.every((value): value is number => value !== null)
+      ? tokens.reduce((sum, token) => sum + token.usd!, 0) - gasCostUsd!
+      : null;
+
+    return {
+      tokens,
+      reportedProfit,
+      gasCost: ethers.formatEther(gasWei),
+      gasCostUsd,
+      netUsd,
+      blockNumber: receipt.blockNumber
+    };
+  }
+
+  private parseLog(iface: ethers.Interface, log: ethers.Log): ethers.LogDescription | null {
+    try {
+      return iface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      return null; // Not this interface's event, or a non-standard Transfer (ERC721 indexes the value)
+    }
+  }
+
+  /**
+   * USD value of a raw amount through the chain's first V2 router, directly to USDC or via the
+   * wrapped native token, as of `blockNumber`. Losses are valued as negative amounts.
+   */
+  private async toUsd(network: NetworkName, token: string, amount: bigint, blockNumber: number): Promise<number | null> {
+    const chain = NETWORK_CONFIG[network].name.toLowerCase();
+    const deployment = CHAIN_DEPLOYMENTS[network]!;
+    const usdc = tokenRegistry.getBySymbol('USDC', chain);
+    const wrappedNative = tokenRegistry.getBySymbol(deployment.wrappedNative, chain);
+    if (!usdc || deployment.v2.length === 0) return null;
+
+    const magnitude = amount < 0n ? -amount : amount;
+    const sign = amount < 0n ? -1 : 1;
+    if (token.toLowerCase() === usdc.address.toLowerCase()) {
+      return sign * Number(ethers.formatUnits(magnitude, usdc.decimals));
+    }
+
+    const router = new ethers.Contract(deployment.v2[0].router, this.V2_ROUTER_ABI, this.provider);
+    const paths = [[token, usdc.address]];
+    if (wrappedNative && token.toLowerCase() !== wrappedNative.address.toLowerCase()) {
+      paths.push([token, wrappedNative.address, usdc.address]);
+    }
+
+    for (const path of paths) {
+      try {
+        const amounts: bigint[] = await router.getAmountsOut(magnitude, path, { blockTag: blockNumber });
+        return sign * Number(ethers.formatUnits(amounts[amounts.length - 1], usdc.decimals));
+      } catch {
+        // No pool along this path, try the next
+      }
+    }
+
+    logger.debug(`No USDC route to value ${token} on ${chain}`);
+    return null;
+  }
+
+  private getNetwork(chain: string): NetworkName | null {
+    const network = (Object.keys(NETWORK_CONFIG) as NetworkName[]).find(name => NETWORK_CONFIG[name].name.toLowerCase() === chain);
+    return network && CHAIN_DEPLOYMENTS[network] ? network : null;
+  }
+}
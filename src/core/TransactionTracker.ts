@@ -0,0 +1,348 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { BOT_CONFIG } from '../config/constants';
+import { NonceManager } from './NonceManager';
+import { FeeStrategy, TransactionFees } from './FeeStrategy';
+
+export type TransactionState = 'pending' | 'included' | 'confirmed' | 'dropped' | 'replaced';
+
+export type TransactionKind = 'trade' | 'speedup' | 'cancel';
+
+export interface TrackedTransaction {
+  hash: string;
+  nonce: number;
+  from: string;
+  kind: TransactionKind;
+  state: TransactionState;
+  label?: string; // What the transaction is for, the opportunity id for trades
+  submittedBlock: number;
+  deadlineBlock: number; // Replaced when still pending at this block
+  includedBlock?: number;
+  confirmations: number;
+  replaces?: string; // Hash of the transaction this one was sent to replace
+  replacedBy?: string; // Hash that took the nonce, unset when it wasn't one of ours
+  updatedAt: number;
+}
+
+// How a transaction and its replacements ended up
+export interface TransactionOutcome {
+  transaction: TrackedTransaction; // The one that settled the nonce, or the original when none of them did
+  receipt: ethers.TransactionReceipt | null; // Null when dropped or replaced by a transaction we didn't send
+}
+
+export interface TransactionTrackerEvents {
+  'transaction:state': (transaction: TrackedTransaction, previous: TransactionState | null) => void;
+}
+
+export declare interface TransactionTracker {
+  on<E extends keyof TransactionTrackerEvents>(event: E, listener: TransactionTrackerEvents[E]): this;
+  once<E extends keyof TransactionTrackerEvents>(event: E, listener: TransactionTrackerEvents[E]): this;
+  off<E extends keyof TransactionTrackerEvents>(event: E, listener: TransactionTrackerEvents[E]): this;
+  emit<E extends keyof TransactionTrackerEvents>(event: E, ...args: Parameters<TransactionTrackerEvents[E]>): boolean;
+}
+
+// A nonce and every transaction sent on it
+interface Lineage {
+  nonce: number;
+  from: string;
+  request: ethers.TransactionRequest; // The original, resent by a speed-up
+  members: { transaction: TrackedTransaction; fees: TransactionFees }[];
+  cancelled: boolean;
+  failedReplacements: number; // Replacements the node refused, they count against MAX_REPLACEMENTS
+  givenUp: boolean; // Settled as dropped, only watched until its nonce is used or forgotten
+  settle: (outcome: TransactionOutcome) => void;
+  outcome: Promise<TransactionOutcome>;
+}
+
+/**
+ * Follows sent transactions block by block: pending → included → confirmed, or dropped when
+ * the node forgets one whose nonce is still free, or replaced when another transaction takes
+ * its nonce. A transaction still pending at its deadline block is replaced on the same nonce,
+ * sped up with higher fees or cancelled with a 0 ETH self-transfer (BOT_CONFIG.TRANSACTIONS).
+ * Once MAX_REPLACEMENTS are used up and the last one is past its deadline too, the lineage is
+ * given up on as dropped, but its nonce stays reserved until the chain uses it or the node
+ * forgets every transaction sent on it. Every state change is emitted as 'transaction:state'.
+ */
+export class TransactionTracker extends EventEmitter {
+  private signer: ethers.Signer;
+  private provider: ethers.Provider;
+  private nonceManager: NonceManager;
+  private feeStrategy: FeeStrategy;
+  private lineages: Map<string, Lineage> = new Map(); // original hash -> lineage, until settled
+  private history: TrackedTransaction[] = [];
+  private blockListener: ((blockNumber: number) => void) | null = null;
+  private isProcessingBlock: boolean = false;
+  private pendingBlock: number | null = null;
+
+  private readonly MAX_HISTORY = 200;
+  private readonly CANCEL_GAS_LIMIT = 21_000n;
+  private readonly MIN_BUMP_PERCENT = 10; // Geth's default price bump, replacements paying less are refused as underpriced
+
+  constructor(signer: ethers.Signer, nonceManager: NonceManager, feeStrategy: FeeStrategy) {
+    super();
+    if (!signer.provider) throw new Error('TransactionTracker needs a signer connected to a provider');
+    this.signer = signer;
+    this.provider = signer.provider;
+    this.nonceManager = nonceManager;
+    this.feeStrategy = feeStrategy;
+  }
+
+  /**
+   * Start following a sent transaction. `request` is what was sent, so a speed-up can resend it.
+   */
+  async track(response: ethers.TransactionResponse, request: ethers.TransactionRequest, label?: string): Promise<TrackedTransaction> {
+    const blockNumber = await this.provider.getBlockNumber();
+    const transaction = this.record(response, 'trade', blockNumber, label);
+
+    let settle!: (outcome: TransactionOutcome) => void;
+    const outcome = new Promise<TransactionOutcome>(resolve => { settle = resolve; });
+    this.lineages.set(response.hash, {
+      nonce: response.nonce,
+      from: response.from,
+      request,
+      members: [{ transaction, fees: this.getFees(response) }],
+      cancelled: false,
+      failedReplacements: 0,
+      givenUp: false,
+      settle,
+      outcome
+    });
+
+    this.announce(transaction);
+    this.listen();
+    return { ...transaction };
+  }
+
+  // Resolves once the transaction tracked under `hash`, or one of its replacements, settles its nonce
+  wait(hash: string): Promise<TransactionOutcome> {
+    const lineage = this.lineages.get(hash);
+    if (!lineage) throw new Error(`Transaction ${hash} is not being tracked`);
+    return lineage.outcome;
+  }
+
+  // Recent transactions, most recent last
+  getTransactions(limit: number = this.MAX_HISTORY): TrackedTransaction[] {
+    return this.history.slice(-limit).map(transaction => ({ ...transaction }));
+  }
+
+  getPendingCount(): number {
+    return Array.from(this.lineages.values()).filter(lineage => !lineage.givenUp).length;
+  }
+
+  stop(): void {
+    if (this.blockListener) {
+      this.provider.off('block', this.blockListener);
+      this.blockListener = null;
+    }
+  }
+
+  // Blocks are only watched while something is in flight
+  private listen(): void {
+    if (this.blockListener) return;
+    this.blockListener = (blockNumber: number) => { this.onBlock(blockNumber); };
+    this.provider.on('block', this.blockListener);
+  }
+
+  // One block at a time; blocks arriving meanwhile collapse into the latest
+  private async onBlock(blockNumber: number): Promise<void> {
+    if (this.isProcessingBlock) {
+      this.pendingBlock = blockNumber;
+      return;
+    }
+
+    this.isProcessingBlock = true;
+    try {
+      for (const [hash, lineage] of Array.from(this.lineages)) {
+        try {
+          await this.update(hash, lineage, blockNumber);
+        } catch (error) {
+          logger.warn(`Failed to update transaction ${hash}:`, error);
+        }
+      }
+    } finally {
+      this.isProcessingBlock = false;
+    }
+
+    if (this.lineages.size === 0) this.stop();
+
+    if (this.pendingBlock !== null) {
+      const next = this.pendingBlock;
+      this.pendingBlock = null;
+      await this.onBlock(next);
+    }
+  }
+
+  private async update(hash: string, lineage: Lineage, blockNumber: number): Promise<void> {
+    if (lineage.givenUp) {
+      await this.watchGivenUp(hash, lineage);
+      return;
+    }
+
+    const live = lineage.members.filter(member => member.transaction.state === 'pending' || member.transaction.state === 'included');
+    const receipts = await Promise.all(live.map(member => this.provider.getTransactionReceipt(member.transaction.hash)));
+
+    for (let i = 0; i < live.length; i++) {
+      const { transaction } = live[i];
+      const receipt = receipts[i];
+      if (!receipt) {
+        // Reorged out, back to the mempool
+        if (transaction.state === 'included') this.setState(transaction, 'pending', { includedBlock: undefined, confirmations: 0 });
+        continue;
+      }
+
+      const confirmations = blockNumber - receipt.blockNumber + 1;
+      if (transaction.state === 'pending') this.setState(transaction, 'included', { includedBlock: receipt.blockNumber, confirmations });
+      else transaction.confirmations = confirmations;
+
+      if (confirmations >= BOT_CONFIG.TRANSACTIONS.CONFIRMATIONS) {
+        this.setState(transaction, 'confirmed', { confirmations });
+        for (const other of lineage.members) {
+          if (other !== live[i] && other.transaction.state === 'pending') this.setState(other.transaction, 'replaced', { replacedBy: transaction.hash });
+        }
+        this.settle(hash, lineage, { transaction: { ...transaction }, receipt });
+      }
+      return;
+    }
+
+    // Nothing of ours is mined, but the nonce may have been used by someone else
+    const mined = await this.provider.getTransactionCount(lineage.from, 'latest');
+    if (mined > lineage.nonce) {
+      for (const member of live) this.setState(member.transaction, 'replaced');
+      this.settle(hash, lineage, { transaction: { ...lineage.members[0].transaction }, receipt: null });
+      return;
+    }
+
+    const latest = lineage.members[lineage.members.length - 1].transaction;
+    const known = await Promise.all(live.map(member => this.provider.getTransaction(member.transaction.hash)));
+    if (known.every(response => response === null) && blockNumber >= latest.submittedBlock + BOT_CONFIG.TRANSACTIONS.DROP_GRACE_BLOCKS) {
+      for (const member of live) this.setState(member.transaction, 'dropped');
+      this.nonceManager.release(lineage.nonce); // Reused by the next transaction, so later nonces aren't stuck behind it
+      this.settle(hash, lineage, { transaction: { ...lineage.members[0].transaction }, receipt: null });
+      return;
+    }
+
+    if (blockNumber >= latest.deadlineBlock) {
+      await this.replace(hash, lineage, blockNumber);
+    }
+  }
+
+  /**
+   * Send a speed-up or a cancel on the lineage's nonce, paying FEE_BUMP_PERCENT more than the
+   * last one as the fee strategy allows. Speed-ups are resent until the last allowed
+   * replacement, or until the gas price cap leaves no room to outbid the last one, then cancelled.
+   */
+  private async replace(hash: string, lineage: Lineage, blockNumber: number): Promise<void> {
+    const { MAX_REPLACEMENTS, STALE_ACTION, FEE_BUMP_PERCENT, DEADLINE_BLOCKS } = BOT_CONFIG.TRANSACTIONS;
+    const replacements = lineage.members.length - 1 + lineage.failedReplacements;
+    const latest = lineage.members[lineage.members.length - 1];
+    if (replacements >= MAX_REPLACEMENTS) {
+      // The nonce stays reserved, the node may still mine one of them
+      logger.error(`Giving up on ${latest.transaction.hash}, still pending after ${replacements} replacements`);
+      const live = lineage.members.filter(member => member.transaction.state === 'pending');
+      for (const member of live) this.setState(member.transaction, 'dropped');
+      lineage.givenUp = true;
+      lineage.settle({ transaction: { ...lineage.members[0].transaction }, receipt: null });
+      return;
+    }
+
+    let cancel = lineage.cancelled || STALE_ACTION === 'cancel' || replacements === MAX_REPLACEMENTS - 1;
+    let fees = await this.feeStrategy.getReplacementFees(latest.fees, FEE_BUMP_PERCENT, cancel);
+    if (!cancel && !this.outbids(fees, latest.fees)) {
+      logger.warn(`Speeding up ${latest.transaction.hash} is held at the gas price cap, cancelling it instead`);
+      cancel = true;
+      fees = await this.feeStrategy.getReplacementFees(latest.fees, FEE_BUMP_PERCENT, cancel);
+    }
+    const request: ethers.TransactionRequest = cancel
+      ? { to: lineage.from, value: 0n, data: '0x', gasLimit: this.CANCEL_GAS_LIMIT, nonce: lineage.nonce, ...fees }
+      : { ...lineage.request, nonce: lineage.nonce, ...fees };
+
+    let response: ethers.TransactionResponse;
+    try {
+      response = await this.signer.sendTransaction(request);
+    } catch (error) {
+      // Underpriced, or the nonce got mined meanwhile - the next block decides
+      lineage.failedReplacements++;
+      logger.warn(`Failed to ${cancel ? 'cancel' : 'speed up'} ${latest.transaction.hash}:`, error instanceof Error ? error.message : error);
+      return;
+    }
+
+    const transaction = this.record(response, cancel ? 'cancel' : 'speedup', blockNumber, latest.transaction.label);
+    transaction.replaces = latest.transaction.hash;
+    transaction.deadlineBlock = blockNumber + DEADLINE_BLOCKS;
+    lineage.members.push({ transaction, fees });
+    lineage.cancelled = cancel;
+
+    logger.warn(`${cancel ? 'Cancelling' : 'Speeding up'} ${latest.transaction.hash} past its deadline block: ${response.hash}`);
+    this.announce(transaction);
+  }
+
+  // Whether every fee is enough above the previous transaction's for nodes to take the replacement
+  private outbids(fees: TransactionFees, previous: TransactionFees): boolean {
+    const bumped = (next: bigint | undefined, last: bigint | undefined) =>
+      last === undefined || (next ?? 0n) * 100n >= last * BigInt(100 + this.MIN_BUMP_PERCENT);
+    return bumped(fees.maxFeePerGas, previous.maxFeePerGas)
+      && bumped(fees.maxPriorityFeePerGas, previous.maxPriorityFeePerGas)
+      && bumped(fees.gasPrice, previous.gasPrice);
+  }
+
+  // Forgets a given-up lineage once its nonce is used, or releases the nonce once the node no
+  // longer knows any of its transactions, so later nonces don't queue behind a gap
+  private async watchGivenUp(hash: string, lineage: Lineage): Promise<void> {
+    const mined = await this.provider.getTransactionCount(lineage.from, 'latest');
+    if (mined > lineage.nonce) {
+      this.lineages.delete(hash);
+      return;
+    }
+
+    const known = await Promise.all(lineage.members.map(member => this.provider.getTransaction(member.transaction.hash)));
+    if (known.every(response => response === null)) {
+      logger.warn(`Node forgot every transaction on nonce ${lineage.nonce} of ${lineage.from}, releasing it`);
+      this.nonceManager.release(lineage.nonce);
+      this.lineages.delete(hash);
+    }
+  }
+
+  private getFees(response: ethers.TransactionResponse): TransactionFees {
+    return response.maxFeePerGas !== null
+      ? { maxFeePerGas: response.maxFeePerGas, maxPriorityFeePerGas: response.maxPriorityFeePerGas ?? 0n }
+      : { gasPrice: response.gasPrice };
+  }
+
+  private record(response: ethers.TransactionResponse, kind: TransactionKind, blockNumber: number, label?: string): TrackedTransaction {
+    const transaction: TrackedTransaction = {
+      hash: response.hash,
+      nonce: response.nonce,
+      from: response.from,
+      kind,
+      state: 'pending',
+      label,
+      submittedBlock: blockNumber,
+      deadlineBlock: blockNumber + BOT_CONFIG.TRANSACTIONS.DEADLINE_BLOCKS,
+      confirmations: 0,
+      updatedAt: Date.now()
+    };
+
+    this.history.push(transaction);
+    if (this.history.length > this.MAX_HISTORY) {
+      this.history.splice(0, this.history.length - this.MAX_HISTORY);
+    }
+    return transaction;
+  }
+
+  // A newly sent transaction, pending with no previous state
+  private announce(transaction: TrackedTransaction): void {
+    this.emit('transaction:state', { ...transaction }, null);
+  }
+
+  private setState(transaction: TrackedTransaction, state: TransactionState, changes: Partial<TrackedTransaction> = {}): void {
+    const previous = transaction.state;
+    Object.assign(transaction, changes, { state, updatedAt: Date.now() });
+    this.emit('transaction:state', { ...transaction }, previous);
+  }
+
+  private settle(hash: string, lineage: Lineage, outcome: TransactionOutcome): void {
+    this.lineages.delete(hash);
+    lineage.settle(outcome);
+  }
+}
@@ -0,0 +1,131 @@
+import { ethers } from 'ethers';
+import { MulticallBatcher } from './MulticallBatcher';
+
+export type FlashSwapKind = 'v2' | 'v3';
+
+export interface FlashLender {
+  kind: FlashSwapKind;
+  pool: string;
+  token0: string;
+  token1: string;
+  fee: number; // What borrowing costs, as a fraction of the amount
+}
+
+/**
+ * Borrows from Uniswap pools instead of a lending protocol, so any token with a deep pool
+ * can be flash-borrowed. V3 pools lend through flash() for their fee tier; V2 pairs through
+ * an optimistic swap(), repaid in the same token at amount / 0.997. The pool stays locked
+ * until repayment, so the lender must not be one of the pools the route trades through.
+ */
+export class UniswapFlashLender {
+  private multicall: MulticallBatcher;
+
+  // Init code hashes of the canonical Uniswap deployments, pool addresses follow from CREATE2
+  private static readonly V2_PAIR_INIT_CODE_HASH = '0x96e8ac4277198ff8b6f785478aa9a39f403cb768dd02cbee326c3e7da348845f';
+  private static readonly V3_POOL_INIT_CODE_HASH = '0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54';
+
+  private static readonly V2_PAIR_ABI = [
+    'function swap(uint256 amount0Out, uint256 amount1Out, address to, bytes data) external'
+  ];
+
+  private static readonly V3_POOL_ABI = [
+    'function flash(address recipient, uint256 amount0, uint256 amount1, bytes data) external'
+  ];
+
+  static readonly V2_PAIR_INTERFACE = new ethers.Interface(UniswapFlashLender.V2_PAIR_ABI);
+
+  private readonly ERC20_ABI = [
+    'function balanceOf(address account) external view returns (uint256)'
+  ];
+
+  constructor(multicall: MulticallBatcher) {
+    this.multicall = multicall;
+  }
+
+  static getV2PairAddress(factory: string, tokenA: string, tokenB: string): string {
+    const [token0, token1] = UniswapFlashLender.sortTokens(tokenA, tokenB);
+    const salt = ethers.solidityPackedKeccak256(['address', 'address'], [token0, token1]);
+    return ethers.getCreate2Address(factory, salt, UniswapFlashLender.V2_PAIR_INIT_CODE_HASH);
+  }
+
+  static getV3PoolAddress(factory: string, tokenA: string, tokenB: string, feeTier: number): string {
+    const [token0, token1] = UniswapFlashLender.sortTokens(tokenA, tokenB);
+    const salt = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address', 'address', 'uint24'],
+      [token0, token1, Math.round(feeTier * 1_000_000)]
+    ));
+    return ethers.getCreate2Address(factory, salt, UniswapFlashLender.V3_POOL_INIT_CODE_HASH);
+  }
+
+  // Amount owed back to the pool, rounded up the way the pools check it
+  static getRepayment(kind: FlashSwapKind, amount: bigint, fee: number): bigint {
+    if (kind === 'v2') {
+      return (amount * 1000n) / 997n + 1n;
+    }
+    const feePips = BigInt(Math.round(fee * 1_000_000));
+    return amount + (amount * feePips + 999_999n) / 1_000_000n;
+  }
+
+  // pool.flash() calldata, the callback goes to msg.sender so the receiver contract must send it
+  static encodeV3Flash(lender: FlashLender, asset: string, amount: bigint, recipient: string, data: string): string {
+    const assetIs0 = asset.toLowerCase() === lender.token0.toLowerCase();
+    return new ethers.Interface(UniswapFlashLender.V3_POOL_ABI).encodeFunctionData('flash', [
+      recipient,
+      assetIs0 ? amount : 0n,
+      assetIs0 ? 0n : amount,
+      data
+    ]);
+  }
+
+  // pair.swap() calldata, non-empty data makes the pair call uniswapV2Call on `to` before checking k
+  static encodeV2FlashSwap(lender: FlashLender, asset: string, amount: bigint, to: string, data: string): string {
+    if (data === '0x') throw new Error('V2 flash swaps need callback data');
+    const assetIs0 = asset.toLowerCase() === lender.token0.toLowerCase();
+    return UniswapFlashLender.V2_PAIR_INTERFACE.encodeFunctionData('swap', [
+      assetIs0 ? amount : 0n,
+      assetIs0 ? 0n : amount,
+      to,
+      data
+    ]);
+  }
+
+  /**
+   * The deepest pool pairing the asset with one of the candidate tokens that can lend the amount,
+   * skipping tokens the route trades so the lending pool is never also a swap pool
+   */
+  async findLender(
+    kind: FlashSwapKind,
+    factory: string,
+    asset: string,
+    amount: bigint,
+    pairTokens: string[],
+    routeTokens: string[],
+    fee: number // V3: the fee tier of the pools to borrow from
+  ): Promise<FlashLender | null> {
+    const excluded = new Set([asset, ...routeTokens].map(token => token.toLowerCase()));
+    const candidates = pairTokens.filter(token => !excluded.has(token.toLowerCase()));
+
+    const lenders = await Promise.all(candidates.map(async pairToken => {
+      const pool = kind === 'v2'
+        ? UniswapFlashLender.getV2PairAddress(factory, asset, pairToken)
+        : UniswapFlashLender.getV3PoolAddress(factory, asset, pairToken, fee);
+
+      try {
+        const [balance] = await this.multicall.call(asset, this.ERC20_ABI, 'balanceOf', [pool]);
+        const [token0, token1] = UniswapFlashLender.sortTokens(asset, pairToken);
+        return balance > amount ? { lender: { kind, pool, token0, token1, fee }, balance: balance as bigint } : null;
+      } catch {
+        return null;
+      }
+    }));
+
+    const best = lenders
+      .filter((lender): lender is { lender: FlashLender; balance: bigint } => lender !== null)
+      .sort((a, b) => (b.balance > a.balance ? 1 : b.balance < a.balance ? -1 : 0))[0];
+    return best ? best.lender : null;
+  }
+
+  private static sortTokens(tokenA: string, tokenB: string): [string, string] {
+    return tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+  }
+}
@@ -0,0 +1,221 @@
+import { ethers } from 'ethers';
+import { V4DexConfig } from '../config/constants';
+import { getV3SpotAmountOut } from '../utils/ammMath';
+import { MulticallBatcher } from './MulticallBatcher';
+import { PoolStateCache } from './PoolStateCache';
+
+export interface PoolKey {
+  currency0: string; // address(0) is the chain's native currency
+  currency1: string;
+  fee: number; // uint24 in hundredths of a bip, or DYNAMIC_FEE_FLAG
+  tickSpacing: number;
+  hooks: string;
+}
+
+// Hook callbacks are permissioned by the low bits of the hook contract's address
+export interface V4HookFlags {
+  beforeSwap: boolean;
+  afterSwap: boolean;
+  beforeSwapReturnsDelta: boolean; // Hook can take or add to the swap amounts
+  afterSwapReturnsDelta: boolean;
+  dynamicFee: boolean; // Hook sets the LP fee
+  changesSwap: boolean; // Any of the above - quotes depend on hook code
+}
+
+export interface V4Quote {
+  dex: string;
+  router: string;
+  poolId: string;
+  poolKey: PoolKey;
+  fee: number; // LP fee as a fraction, read from the pool for dynamic-fee pools
+  hookFlags: V4HookFlags;
+  amountOut: bigint;
+  spotAmountOut: bigint;
+  gasEstimate: bigint;
+}
+
+interface V4Pool {
+  key: PoolKey;
+  poolId: string;
+  hookFlags: V4HookFlags;
+}
+
+/**
+ * Quotes Uniswap V4 pools. There is no factory to ask - every pool lives in the PoolManager
+ * under the hash of its PoolKey - so candidate keys (standard fee tiers, with no hooks and
+ * with each configured hook) are hashed and checked through StateView, then quoted with
+ * the V4Quoter. The wrapped native token is also tried as native currency, where most
+ * V4 liquidity sits.
+ */
+export class UniswapV4Adapter {
+  private multicall: MulticallBatcher;
+  private poolCache: PoolStateCache;
+  private wrappedNative: string;
+  private pools: Map<string, V4Pool[]> = new Map(); // poolManager:tokenA:tokenB -> initialised pools
+
+  static readonly DYNAMIC_FEE_FLAG = 0x800000;
+
+  private static readonly HOOK_FLAGS = {
+    BEFORE_SWAP: 1n << 7n,
+    AFTER_SWAP: 1n << 6n,
+    BEFORE_SWAP_RETURNS_DELTA: 1n << 3n,
+    AFTER_SWAP_RETURNS_DELTA: 1n << 2n
+  };
+
+  private readonly STATE_VIEW_ABI = [
+    'function getSlot0(bytes32 poolId) external view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)'
+  ];
+
+  private readonly QUOTER_ABI = [
+    'function quoteExactInputSingle(tuple(tuple(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 exactAmount, bytes hookData) params) external returns (uint256 amountOut, uint256 gasEstimate)'
+  ];
+
+  constructor(multicall: MulticallBatcher, poolCache: PoolStateCache, wrappedNative: string) {
+    this.multicall = multicall;
+    this.poolCache = poolCache;
+    this.wrappedNative = wrappedNative;
+  }
+
+  static getPoolId(key: PoolKey): string {
+    return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address', 'address', 'uint24', 'int24', 'address'],
+      [key.currency0, key.currency1, key.fee, key.tickSpacing, key.hooks]
+    ));
+  }
+
+  static getHookFlags(key: PoolKey): V4HookFlags {
+    const permissions = BigInt(key.hooks);
+    const { BEFORE_SWAP, AFTER_SWAP, BEFORE_SWAP_RETURNS_DELTA, AFTER_SWAP_RETURNS_DELTA } = UniswapV4Adapter.HOOK_FLAGS;
+
+    const flags = {
+      beforeSwap: (permissions & BEFORE_SWAP) !== 0n,
+      afterSwap: (permissions & AFTER_SWAP) !== 0n,
+      beforeSwapReturnsDelta: (permissions & BEFORE_SWAP_RETURNS_DELTA) !== 0n,
+      afterSwapReturnsDelta: (permissions & AFTER_SWAP_RETURNS_DELTA) !== 0n,
+      dynamicFee: key.fee === UniswapV4Adapter.DYNAMIC_FEE_FLAG
+    };
+    return { ...flags, changesSwap: Object.values(flags).some(Boolean) };
+  }
+
+  /**
+   * Quotes from every initialised pool of the pair
+   */
+  async getQuotes(dex: V4DexConfig, tokenIn: string, tokenOut: string, amountIn: bigint): Promise<V4Quote[]> {
+    const pools = await this.getPools(dex, tokenIn, tokenOut);
+
+    const quotes = await Promise.all(pools.map(async pool => {
+      const currencyIn = this.toCurrency(pool.key, tokenIn);
+      const zeroForOne = currencyIn.toLowerCase() === pool.key.currency0.toLowerCase();
+
+      try {
+        const [[amountOut, gasEstimate], [sqrtPriceX96, , , lpFee]] = await Promise.all([
+          this.multicall.call(dex.quoter, this.QUOTER_ABI, 'quoteExactInputSingle', [{
+            poolKey: pool.key,
+            zeroForOne,
+            exactAmount: amountIn,
+            hookData: '0x'
+          }]),
+          this.multicall.call(dex.stateView, this.STATE_VIEW_ABI, 'getSlot0', [pool.poolId])
+        ]);
+        if (amountOut <= 0n) return null;
+
+        const fee = Number(lpFee) / 1_000_000;
+        return {
+          dex: this.describePool(dex, pool),
+          router: dex.router,
+          poolId: pool.poolId,
+          poolKey: pool.key,
+          fee,
+          hookFlags: pool.hookFlags,
+          amountOut,
+          spotAmountOut: getV3SpotAmountOut(amountIn, sqrtPriceX96, zeroForOne),
+          gasEstimate
+        };
+      } catch {
+        return null; // Quoter reverts for pools without liquidity in range, and for some hooks
+      }
+    }));
+
+    return quotes.filter((quote): quote is V4Quote => quote !== null);
+  }
+
+  // Initialised pools among the candidate keys, looked up once per pair and tracked for Swap events
+  private async getPools(dex: V4DexConfig, tokenA: string, tokenB: string): Promise<V4Pool[]> {
+    const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+    const cacheKey = `${dex.poolManager}:${token0.toLowerCase()}:${token1.toLowerCase()}`;
+    const cached = this.pools.get(cacheKey);
+    if (cached) return cached;
+
+    const candidates = this.getCandidateKeys(dex, token0, token1);
+    const initialised = await Promise.all(candidates.map(async key => {
+      const poolId = UniswapV4Adapter.getPoolId(key);
+      try {
+        const [sqrtPriceX96] = await this.multicall.call(dex.stateView, this.STATE_VIEW_ABI, 'getSlot0', [poolId]);
+        return sqrtPriceX96 > 0n ? { key, poolId, hookFlags: UniswapV4Adapter.getHookFlags(key) } : null;
+      } catch {
+        return null;
+      }
+    }));
+
+    const pools = initialised.filter((pool): pool is V4Pool => pool !== null);
+    for (const pool of pools) {
+      this.poolCache.track({
+        address: dex.poolManager,
+        poolId: pool.poolId,
+        kind: 'v4',
+        dex: dex.name,
+        token0,
+        token1,
+        fee: pool.hookFlags.dynamicFee ? undefined : pool.key.fee / 1_000_000
+      });
+    }
+
+    this.pools.set(cacheKey, pools);
+    return pools;
+  }
+
+  private getCandidateKeys(dex: V4DexConfig, token0: string, token1: string): PoolKey[] {
+    const pairs: [string, string][] = [[token0, token1]];
+
+    // Native currency is address(0), which always sorts first
+    const native = [token0, token1].find(token => token.toLowerCase() === this.wrappedNative.toLowerCase());
+    if (native) {
+      const other = native === token0 ? token1 : token0;
+      pairs.push([ethers.ZeroAddress, other]);
+    }
+
+    const keys: PoolKey[] = [];
+    for (const [currency0, currency1] of pairs) {
+      for (const hooks of [ethers.ZeroAddress, ...dex.hooks]) {
+        for (const tier of dex.feeTiers) {
+          keys.push({ currency0, currency1, fee: Math.round(tier.fee * 1_000_000), tickSpacing: tier.tickSpacing, hooks });
+        }
+        // Dynamic-fee pools only make sense with a hook to set the fee
+        if (hooks !== ethers.ZeroAddress) {
+          for (const tier of dex.feeTiers) {
+            keys.push({ currency0, currency1, fee: UniswapV4Adapter.DYNAMIC_FEE_FLAG, tickSpacing: tier.tickSpacing, hooks });
+          }
+        }
+      }
+    }
+    return keys;
+  }
+
+  // The pool currency a token trades as - the wrapped native token maps to native in native pools
+  private toCurrency(key: PoolKey, token: string): string {
+    if (key.currency0 === ethers.ZeroAddress && token.toLowerCase() === this.wrappedNative.toLowerCase()) {
+      return ethers.ZeroAddress;
+    }
+    return token;
+  }
+
+  // Unique and stable per pool, since route ids are built from DEX names
+  private describePool(dex: V4DexConfig, pool: V4Pool): string {
+    const details = [pool.hookFlags.dynamicFee
+      ? `dynamic fee, ts ${pool.key.tickSpacing}`
+      : `${(pool.key.fee / 10_000).toFixed(2)}%`];
+    if (pool.key.currency0 === ethers.ZeroAddress) details.push('native');
+    if (pool.key.hooks !== ethers.ZeroAddress) details.push(`hooks ${pool.key.hooks.slice(0, 10)}`);
+    return `${dex.name} (${details.join(', ')})`;
+  }
+}
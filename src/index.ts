@@ -28,8 +28,8 @@ class FlashLoanBot {
       process.exit(1);
     }
 
-    if (!process.env.PRIVATE_KEY) {
-      logger.warn('PRIVATE_KEY not set - flash loan execution will be disabled');
+    if (!process.env.SIGNER_KEYSTORE_PATH && !process.env.SIGNER_URL && !process.env.PRIVATE_KEY) {
+      logger.warn('No signer configured (SIGNER_KEYSTORE_PATH, SIGNER_URL or PRIVATE_KEY) - flash loan execution will be disabled');
       logger.warn('The bot will run in monitoring mode only');
     }
 
@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { logger } from './utils/logger';
+import { BOT_CONFIG } from './config/constants';
+import { MockBundleRelay } from './relay/MockBundleRelay';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Local bundle relay for offline testing
+ * Run a local node (e.g. `anvil --fork-url <rpc>`), point RPC_URL_MAINNET at it and
+ * BUNDLE_RELAY_URL at this relay, and trades go through the same bundle flow as on mainnet
+ */
+const upstream = new ethers.JsonRpcProvider(process.env.MOCK_RELAY_UPSTREAM || 'http://127.0.0.1:8545');
+const relay = new MockBundleRelay(upstream);
+
+const shutdown = async (signal: string) => {
+  logger.info(`Received ${signal} signal`);
+  await relay.stop();
+  upstream.destroy();
+  process.exit(0);
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+if (require.main === module) {
+  relay.start(BOT_CONFIG.PRIVATE_BUNDLES.MOCK_RELAY_PORT).catch((error) => {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,266 @@
+import express from 'express';
+import { Server } from 'http';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+
+// A bundle offered for one block
+interface QueuedBundle {
+  bundleHash: string;
+  transactions: ethers.Transaction[];
+  signed: string[];
+  blockNumber: number;
+}
+
+interface SimulatedCall {
+  txHash: string;
+  gasUsed: string;
+  fromAddress: string;
+  toAddress: string | null;
+  value?: string; // Return data
+  error?: string;
+  revert?: string; // Revert data
+}
+
+class RelayError extends Error {
+  constructor(message: string, readonly code: number = -32602) {
+    super(message);
+  }
+}
+
+/**
+ * Stand-in for a Flashbots relay in front of a local node (anvil, hardhat or a fork), so bundle
+ * submission can be exercised offline. It speaks the same eth_callBundle/eth_sendBundle JSON-RPC
+ * and checks X-Flashbots-Signature. Calls are simulated with eth_call on the node; a bundle is
+ * "included" by broadcasting its transactions to the node once the block it targets is next,
+ * and only when it still simulates cleanly, so a reverting bundle never lands. Each transaction
+ * is simulated against the state block on its own, state doesn't carry over within a bundle.
+ */
+export class MockBundleRelay {
+  private upstream: ethers.JsonRpcProvider;
+  private app: express.Application;
+  private server: Server | null = null;
+  private queue: QueuedBundle[] = [];
+  private included: Set<string> = new Set(); // Bundle hashes already broadcast
+  private blockListener: ((blockNumber: number) => void) | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(upstream: ethers.JsonRpcProvider) {
+    this.upstream = upstream;
+    this.app = express();
+    // The signature covers the exact body, so it is kept as received
+    this.app.use(express.text({ type: '*/*', limit: '1mb' }));
+    this.app.post('/', (req, res) => { this.handle(req, res); });
+  }
+
+  async start(port: number): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server = this.app.listen(port, '127.0.0.1', () => resolve());
+      this.server.on('error', reject);
+    });
+
+    this.blockListener = (blockNumber: number) => { this.exclusive(async () => { await this.processBlock(blockNumber); }); };
+    await this.upstream.on('block', this.blockListener);
+    logger.success(`Mock bundle relay listening on http://127.0.0.1:${port}`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.blockListener) {
+      await this.upstream.off('block', this.blockListener);
+      this.blockListener = null;
+    }
+    await new Promise<void>(resolve => {
+      if (this.server) this.server.close(() => resolve());
+      else resolve();
+    });
+    this.server = null;
+  }
+
+  // Mine the next blocks of a node that only mines on demand the way a builder would, with the
+  // bundles due in each broadcast into it, so none can miss its block to one mined meanwhile
+  async mine(blocks: number = 1): Promise<void> {
+    for (let i = 0; i < blocks; i++) {
+      await this.exclusive(async () => {
+        const broadcast = await this.processBlock(await this.upstream.getBlockNumber());
+        if (!broadcast) await this.upstream.send('evm_mine', []);
+      });
+    }
+  }
+
+  private async handle(req: express.Request, res: express.Response): Promise<void> {
+    const body: string = typeof req.body === 'string' ? req.body : '';
+    let request: any;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      res.status(400).json({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      return;
+    }
+
+    const reply = (status: number, payload: object) => res.status(status).json({ jsonrpc: '2.0', id: request.id ?? null, ...payload });
+    const searcher = this.verifySignature(body, req.header('X-Flashbots-Signature'));
+    if (!searcher) {
+      reply(403, { error: { code: -32600, message: 'Missing or invalid X-Flashbots-Signature' } });
+      return;
+    }
+
+    try {
+      const params = Array.isArray(request.params) ? request.params[0] : undefined;
+      switch (request.method) {
+        case 'eth_callBundle':
+          reply(200, { result: await this.callBundle(params) });
+          break;
+        case 'eth_sendBundle':
+          reply(200, { result: await this.sendBundle(params, searcher) });
+          break;
+        default:
+          throw new RelayError(`Method ${request.method} not supported`, -32601);
+      }
+    } catch (error) {
+      const code = error instanceof RelayError ? error.code : -32000;
+      reply(error instanceof RelayError ? 400 : 500, { error: { code, message: error instanceof Error ? error.message : String(error) } });
+    }
+  }
+
+  // The searcher's address when the header's signature matches the body, null otherwise
+  private verifySignature(body: string, header: string | undefined): string | null {
+    const [address, signature] = (header || '').split(':');
+    if (!address || !signature) return null;
+    try {
+      const signer = ethers.verifyMessage(ethers.id(body), signature);
+      return signer.toLowerCase() === address.toLowerCase() ? signer : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async callBundle(params: any): Promise<object> {
+    const transactions = this.parseTransactions(params?.txs);
+    const stateBlock = params?.stateBlockNumber === 'latest' || params?.stateBlockNumber === undefined
+      ? await this.upstream.getBlockNumber()
+      : Number(params.stateBlockNumber);
+
+    const results = await this.simulate(transactions, stateBlock);
+    return {
+      bundleHash: this.hashBundle(transactions),
+      stateBlockNumber: stateBlock,
+      totalGasUsed: results.reduce((total, result) => total + Number(result.gasUsed), 0),
+      results
+    };
+  }
+
+  private async sendBundle(params: any, searcher: string): Promise<object> {
+    const transactions = this.parseTransactions(params?.txs);
+    const blockNumber = Number(params?.blockNumber);
+    if (!Number.isInteger(blockNumber) || blockNumber <= 0) throw new RelayError('blockNumber is required');
+
+    const bundleHash = this.hashBundle(transactions);
+    this.queue.push({ bundleHash, transactions, signed: params.txs, blockNumber });
+    logger.info(`Mock relay: bundle ${bundleHash} from ${searcher} queued for block ${blockNumber}`);
+
+    // A node that only mines on demand never announces the next block, so the queue is also checked now
+    this.exclusive(async () => { await this.processBlock(await this.upstream.getBlockNumber()); });
+    return { bundleHash };
+  }
+
+  // Broadcast the bundles targeting the next block that still simulate, forget the ones whose block
+  // passed. Whether any was broadcast
+  private async processBlock(blockNumber: number): Promise<boolean> {
+    const due = this.queue.filter(bundle => bundle.blockNumber === blockNumber + 1);
+    this.queue = this.queue.filter(bundle => bundle.blockNumber > blockNumber + 1);
+
+    let broadcast = false;
+    for (const bundle of due) {
+      if (this.included.has(bundle.bundleHash)) continue;
+
+      const results = await this.simulate(bundle.transactions, blockNumber);
+      const failed = results.find(result => result.error || result.revert);
+      if (failed) {
+        logger.info(`Mock relay: bundle ${bundle.bundleHash} not included in block ${bundle.blockNumber}, ${failed.error || 'reverted'}`);
+        continue;
+      }
+
+      // A block mined while simulating took the target, landing later would put it outside it
+      if (await this.upstream.getBlockNumber() !== blockNumber) {
+        logger.info(`Mock relay: bundle ${bundle.bundleHash} missed block ${bundle.blockNumber}`);
+        continue;
+      }
+
+      try {
+        for (const signed of bundle.signed) {
+          await this.upstream.send('eth_sendRawTransaction', [signed]);
+        }
+        this.included.add(bundle.bundleHash);
+        broadcast = true;
+        logger.info(`Mock relay: bundle ${bundle.bundleHash} included for block ${bundle.blockNumber}`);
+      } catch (error) {
+        logger.warn(`Mock relay: failed to broadcast bundle ${bundle.bundleHash}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return broadcast;
+  }
+
+  private async simulate(transactions: ethers.Transaction[], stateBlock: number): Promise<SimulatedCall[]> {
+    const block = ethers.toQuantity(stateBlock);
+    const nonces: Map<string, number> = new Map(); // Senders' next nonce within the bundle
+    const results: SimulatedCall[] = [];
+
+    for (const transaction of transactions) {
+      const from = transaction.from!;
+      const call = {
+        from,
+        to: transaction.to,
+        data: transaction.data,
+        value: ethers.toQuantity(transaction.value),
+        gas: ethers.toQuantity(transaction.gasLimit)
+      };
+      const result: SimulatedCall = { txHash: transaction.hash!, gasUsed: '0', fromAddress: from, toAddress: transaction.to };
+
+      const expected = nonces.get(from) ?? await this.upstream.getTransactionCount(from, stateBlock);
+      nonces.set(from, expected + 1);
+      if (transaction.nonce !== expected) {
+        result.error = transaction.nonce < expected ? 'nonce too low' : 'nonce too high';
+        results.push(result);
+        continue;
+      }
+
+      try {
+        result.value = await this.upstream.send('eth_call', [call, block]);
+        const { gas: _limit, ...estimateCall } = call;
+        result.gasUsed = BigInt(await this.upstream.send('eth_estimateGas', [estimateCall, block])).toString();
+      } catch (error: any) {
+        const data = [error?.data, error?.info?.error?.data, error?.error?.data]
+          .find((candidate): candidate is string => typeof candidate === 'string' && ethers.isHexString(candidate));
+        result.error = 'execution reverted';
+        result.revert = data || (error instanceof Error ? error.message : 'unknown');
+      }
+      results.push(result);
+    }
+    return results;
+  }
+
+  private parseTransactions(signed: unknown): ethers.Transaction[] {
+    if (!Array.isArray(signed) || signed.length === 0) throw new RelayError('txs must be a non-empty array of signed transactions');
+    return signed.map((raw, index) => {
+      try {
+        const transaction = ethers.Transaction.from(raw);
+        if (!transaction.from) throw new Error('unsigned');
+        return transaction;
+      } catch {
+        throw new RelayError(`txs[${index}] is not a signed transaction`);
+      }
+    });
+  }
+
+  private hashBundle(transactions: ethers.Transaction[]): string {
+    return ethers.keccak256(ethers.concat(transactions.map(transaction => transaction.hash!)));
+  }
+
+  // Queue work happens one piece at a time, blocks and new bundles can arrive together
+  private exclusive(operation: () => Promise<void>): Promise<void> {
+    const result = this.lock.then(operation).catch(error => {
+      logger.warn('Mock relay: failed to process bundles:', error);
+    });
+    this.lock = result;
+    return result;
+  }
+}
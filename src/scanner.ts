@@ -3,9 +3,11 @@
 import dotenv from 'dotenv';
 import { ethers } from 'ethers';
 import { logger } from './utils/logger';
-import { OpportunityFinder } from './core/OpportunityFinder';
+import { ArbitrageOpportunity } from './core/OpportunityFinder';
+import { MultiChainOpportunityFinder } from './core/MultiChainOpportunityFinder';
 import { PriceMonitor } from './core/PriceMonitor';
 import { NETWORK_CONFIG } from './config/constants';
+import { tokenRegistry } from './core/TokenRegistry';
 
 // Load environment variables
 dotenv.config();
@@ -16,14 +18,15 @@ dotenv.config();
  */
 class OpportunityScanner {
   private provider: ethers.JsonRpcProvider;
-  private opportunityFinder: OpportunityFinder;
+  private opportunityFinder: MultiChainOpportunityFinder;
   private priceMonitor: PriceMonitor;
   
   constructor() {
     this.provider = new ethers.JsonRpcProvider(
       process.env.RPC_URL_MAINNET || NETWORK_CONFIG.ETHEREUM.rpcUrl
     );
-    this.opportunityFinder = new OpportunityFinder(this.provider);
+    // One finder per configured chain, Ethereum on the scanner's own RPC
+    this.opportunityFinder = new MultiChainOpportunityFinder(undefined, { ETHEREUM: this.provider });
     this.priceMonitor = new PriceMonitor();
   }
 
@@ -39,6 +42,9 @@ class OpportunityScanner {
         logger.debug(`Price Update: ${update.symbol} = $${update.price}`);
       });
       
+      // React to opportunities as the finder reports them
+      this.setupOpportunityEvents();
+
       // Start opportunity scanning
       await this.opportunityFinder.startScanning();
       
@@ -66,6 +72,16 @@ class OpportunityScanner {
     }
   }
 
+  private setupOpportunityEvents(): void {
+    this.opportunityFinder.on('opportunity:new', (opp) => {
+      logger.opportunity(`🆕 ${opp.profitPercentage.toFixed(4)}% profit`, this.describeOpportunity(opp));
+    });
+
+    this.opportunityFinder.on('opportunity:expired', (opp, reason) => {
+      logger.info(`⌛ Opportunity gone (${reason}) after ${opp.seenCount ?? 1} sightings: ${this.describeOpportunity(opp).route}`);
+    });
+  }
+
   private setupReporting(): void {
     // Report opportunities every 30 seconds
     setInterval(() => {
@@ -89,19 +105,26 @@ class OpportunityScanner {
     logger.info(`📊 Found ${opportunities.length} opportunities:`);
     
     opportunities.slice(0, 5).forEach((opp, index) => {
-      logger.opportunity(
-        `#${index + 1}: ${opp.profitPercentage.toFixed(4)}% profit`,
-        {
-          tokens: `${this.getTokenSymbol(opp.tokenA)} → ${this.getTokenSymbol(opp.tokenB)}`,
-          dexA: opp.dexA.name,
-          dexB: opp.dexB.name,
-          expectedProfit: `${opp.expectedProfit} ETH`,
-          age: `${Math.round((Date.now() - opp.timestamp) / 1000)}s ago`
-        }
-      );
+      logger.opportunity(`#${index + 1}: ${opp.profitPercentage.toFixed(4)}% profit`, this.describeOpportunity(opp));
     });
   }
 
+  private describeOpportunity(opp: ArbitrageOpportunity) {
+    return {
+      chain: opp.chain,
+      tokens: opp.hops
+        ? [...opp.hops.map(hop => this.getTokenSymbol(hop.tokenIn, opp.chain)), this.getTokenSymbol(opp.tokenA, opp.chain)].join(' → ')
+        : `${this.getTokenSymbol(opp.tokenA, opp.chain)} → ${this.getTokenSymbol(opp.tokenB, opp.chain)}`,
+      route: opp.hops ? opp.hops.map(hop => hop.dex).join(' → ') : `${opp.dexA.name} → ${opp.dexB.name}`,
+      expectedProfit: `${opp.expectedProfit} ${opp.profitCurrency || 'ETH'}`,
+      age: `${Math.round((Date.now() - (opp.firstSeen ?? opp.timestamp)) / 1000)}s`,
+      seen: `${opp.seenCount ?? 1}x, last at block ${opp.blockNumber ?? '?'}`,
+      costs: opp.costs
+        ? `gross ${opp.costs.grossProfit} - fees ${opp.costs.dexFees} - impact ${opp.costs.priceImpact} - ${opp.costs.flashLoanProvider} ${opp.costs.flashLoanFee} - gas ${opp.costs.gasCost} @ ${opp.costs.gasPriceGwei} gwei - slippage ${opp.costs.slippageBuffer}`
+        : undefined
+    };
+  }
+
   private reportPriceStats(): void {
     const stats = this.priceMonitor.getStats();
     const prices = this.priceMonitor.getAllPrices();
@@ -124,16 +147,8 @@ class OpportunityScanner {
     }
   }
 
-  private getTokenSymbol(address: string): string {
-    const tokenMap: { [key: string]: string } = {
-      '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2': 'WETH',
-      '0xA0b86a33E6417c13C812C72De3FE58dD2C5d1D65': 'USDC',
-      '0xdAC17F958D2ee523a2206206994597C13D831ec7': 'USDT',
-      '0x6B175474E89094C44Da98b954EedeAC495271d0F': 'DAI',
-      '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599': 'WBTC'
-    };
-    
-    return tokenMap[address] || address.slice(0, 8) + '...';
+  private getTokenSymbol(address: string, chain?: string): string {
+    return tokenRegistry.getSymbol(address, chain);
   }
 }
 
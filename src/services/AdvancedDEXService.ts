@@ -1,5 +1,24 @@
 import axios from 'axios';
+import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
+import { BalancerDexConfig, BOT_CONFIG, CHAIN_DEPLOYMENTS, NETWORK_CONFIG, NetworkName } from '../config/constants';
+import { BalancerAdapter, BalancerPathHop, BalancerSwapDescription } from '../core/BalancerAdapter';
+import { CurveAdapter, CurvePoolType } from '../core/CurveAdapter';
+import { CurveSwapParams } from '../core/ArbitrageExecutorContract';
+import { MulticallBatcher } from '../core/MulticallBatcher';
+import { ArbitrageHop } from '../core/OpportunityFinder';
+import { TokenMetadata, tokenRegistry } from '../core/TokenRegistry';
+
+// One side of a round trip, quoted on-chain at the trade size
+interface VenueQuote {
+  dex: string;
+  router: string; // Contract the swap is sent to
+  pool?: string;
+  fee?: number; // Pool fee as a fraction, where the venue has a fixed one
+  amountOut: bigint;
+  curveSwap?: CurveSwapParams;
+  balancerSwap?: BalancerSwapDescription;
+}
 
 /**
  * Advanced DEX Service - Monitors major DEX platforms beyond Uniswap/SushiSwap
@@ -9,6 +28,15 @@ export class AdvancedDEXService {
   private cache: Map<string, { data: any, timestamp: number }> = new Map();
   private cacheTimeout = 30000; // 30 seconds
   private oneInchApiKey: string;
+  private chains: Map<NetworkName, { multicall: MulticallBatcher; curve: CurveAdapter; balancer?: BalancerAdapter }> = new Map();
+
+  private readonly V2_ROUTER_ABI = [
+    'function getAmountsOut(uint256 amountIn, address[] path) external view returns (uint256[] amounts)'
+  ];
+
+  private readonly V3_QUOTER_ABI = [
+    'function quoteExactInputSingle(tuple(address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)'
+  ];
 
   // API Endpoints for different DEX protocols
   private endpoints = {
@@ -117,11 +145,12 @@ export class AdvancedDEXService {
       });
 
       const pools = response.data?.data?.pools || [];
-      const enhancedPools = pools.map((pool: any) => ({
+      const poolTypes = await this.getCurvePoolTypes(network, pools.map((pool: any) => pool.id));
+      const enhancedPools = pools.map((pool: any, index: number) => ({
         ...pool,
         source: `Curve Finance (${network})`,
         network,
-        poolType: 'stable',
+        poolType: poolTypes[index] ?? 'stable',
         timestamp: Date.now()
       }));
 
@@ -329,8 +358,8 @@ export class AdvancedDEXService {
       
       // Get data from all supported DEXes
       const [curveEth, balancerEth, pancakeBsc] = await Promise.allSettled([
-        this.getCurvePools('ethereum'),
-        this.getBalancerPools('ethereum'),
+        this.findCurveArbitrageOpportunities('ethereum'),
+        this.findBalancerArbitrageOpportunities('ethereum'),
         this.getPancakeSwapPools('bsc')
       ]);
 
@@ -343,10 +372,15 @@ export class AdvancedDEXService {
         'ethereum'
       );
 
+      // Curve and Balancer are quoted on-chain against Uniswap/Sushi at the same sizes, their round trips are final
+      for (const result of [curveEth, balancerEth]) {
+        if (result.status === 'fulfilled') {
+          opportunities.push(...result.value);
+        }
+      }
+
       // Analyze price differences across DEXes
       const allPools = [
-        ...(curveEth.status === 'fulfilled' ? curveEth.value : []),
-        ...(balancerEth.status === 'fulfilled' ? balancerEth.value : []),
         ...(pancakeBsc.status === 'fulfilled' ? pancakeBsc.value : [])
       ];
 
@@ -372,25 +406,7 @@ export class AdvancedDEXService {
           const priceData = pools.map(pool => {
             let impliedPrice = 1;
             
-            if (pool.source.includes('Curve')) {
-              // Curve: stable pools, prices close to 1:1
-              impliedPrice = parseFloat(pool.virtualPrice || '1');
-            } else if (pool.source.includes('Balancer')) {
-              // Balancer: weighted pools, calculate from reserves and weights
-              const tokens = pool.tokens;
-              if (tokens.length >= 2) {
-                const token0 = tokens[0];
-                const token1 = tokens[1];
-                const weight0 = parseFloat(token0.weight || '0.5');
-                const weight1 = parseFloat(token1.weight || '0.5');
-                const balance0 = parseFloat(token0.balance || '0');
-                const balance1 = parseFloat(token1.balance || '0');
-                
-                if (balance0 > 0 && balance1 > 0 && weight0 > 0 && weight1 > 0) {
-                  impliedPrice = (balance1 / balance0) * (weight0 / weight1);
-                }
-              }
-            } else if (pool.source.includes('PancakeSwap')) {
+            if (pool.source.includes('PancakeSwap')) {
               // PancakeSwap: AMM, use token prices
               impliedPrice = parseFloat(pool.token0Price || pool.token1Price || '1');
             }
@@ -470,6 +486,270 @@ export class AdvancedDEXService {
     }
   }
 
+  // Plain, meta or crypto per pool as the on-chain registry sees it, null where it isn't known
+  private async getCurvePoolTypes(network: 'ethereum' | 'arbitrum' | 'polygon', pools: string[]): Promise<(CurvePoolType | null)[]> {
+    const networkName = network.toUpperCase() as NetworkName;
+    const curveDex = CHAIN_DEPLOYMENTS[networkName]?.curve;
+    if (!curveDex) return pools.map(() => null);
+
+    const { curve } = this.getChain(networkName);
+    return await Promise.all(pools.map(pool => curve.getPoolType(curveDex, pool).catch(() => null)));
+  }
+
+  /**
+   * Round trips between Curve and Uniswap/Sushi, all quoted on-chain in raw token units.
+   * Every coin pair of the largest subgraph pools is quoted at each BOT_CONFIG.CURVE size.
+   */
+  async findCurveArbitrageOpportunities(network: 'ethereum' | 'arbitrum' | 'polygon' = 'ethereum'): Promise<any[]> {
+    const networkName = network.toUpperCase() as NetworkName;
+    const curveDex = CHAIN_DEPLOYMENTS[networkName]?.curve;
+    if (!curveDex) {
+      logger.debug(`No Curve registry configured for ${network}, skipping on-chain Curve quotes`);
+      return [];
+    }
+
+    const chain = NETWORK_CONFIG[networkName].name.toLowerCase();
+    const { curve } = this.getChain(networkName);
+    const pools = (await this.getCurvePools(network)).slice(0, BOT_CONFIG.CURVE.MAX_POOLS);
+
+    const candidates: Promise<any | null>[] = [];
+    for (const pool of pools) {
+      // Coins the registry has metadata for - the reference DEXs need routable tokens anyway
+      const coins = (pool.coins || [])
+        .map((coin: any) => tokenRegistry.get(coin.id, chain))
+        .filter((token: TokenMetadata | null): token is TokenMetadata => token !== null);
+
+      const quotePool = async (tokenIn: string, tokenOut: string, amountIn: bigint): Promise<VenueQuote | null> => {
+        const quote = await curve.getQuote(curveDex, pool.id, tokenIn, tokenOut, amountIn);
+        return quote && {
+          dex: quote.dex,
+          router: pool.id,
+          pool: pool.id,
+          amountOut: quote.amountOut,
+          curveSwap: { i: quote.i, j: quote.j, underlying: quote.underlying, crypto: quote.type === 'crypto' }
+        };
+      };
+
+      for (const tokenIn of coins) {
+        for (const tokenOut of coins) {
+          if (tokenIn.address === tokenOut.address) continue;
+          for (const sizeUsd of BOT_CONFIG.CURVE.QUOTE_SIZES_USD) {
+            candidates.push(this.quoteRoundTrip(networkName, tokenIn, tokenOut, sizeUsd, quotePool));
+          }
+        }
+      }
+    }
+
+    const opportunities = (await Promise.all(candidates)).filter(opportunity => opportunity !== null);
+    logger.info(`✅ Quoted ${pools.length} Curve pools on ${network}, ${opportunities.length} profitable round trips`);
+    return opportunities;
+  }
+
+  /**
+   * Round trips between Balancer and Uniswap/Sushi. Balancer legs are Vault batch swaps
+   * through one pool or two (via any token the pools share), quoted with queryBatchSwap
+   * at each BOT_CONFIG.BALANCER size. The quoted swap travels with the opportunity's hop.
+   */
+  async findBalancerArbitrageOpportunities(network: 'ethereum' | 'polygon' | 'arbitrum' | 'optimism' | 'base' = 'ethereum'): Promise<any[]> {
+    const networkName = network.toUpperCase() as NetworkName;
+    const balancerDex = CHAIN_DEPLOYMENTS[networkName]?.balancer;
+    if (!balancerDex) {
+      logger.debug(`No Balancer Vault configured for ${network}, skipping on-chain Balancer quotes`);
+      return [];
+    }
+
+    const chain = NETWORK_CONFIG[networkName].name.toLowerCase();
+    const balancer = this.getBalancer(networkName, balancerDex);
+    const pools = (await this.getBalancerPools(network)).slice(0, BOT_CONFIG.BALANCER.MAX_POOLS);
+
+    const quotePaths = async (tokenIn: string, tokenOut: string, amountIn: bigint): Promise<VenueQuote | null> => {
+      const paths = this.getBalancerPaths(pools, tokenIn, tokenOut);
+      const swaps = await Promise.all(paths.map(path => balancer.quote(path, amountIn)));
+
+      let best: VenueQuote | null = null;
+      swaps.forEach((swap, index) => {
+        if (!swap || (best && BigInt(swap.amountOut) <= best.amountOut)) return;
+        const poolIds = paths[index].map(hop => hop.poolId);
+        best = {
+          dex: `${balancerDex.name} (${poolIds.map(id => id.slice(0, 10)).join(' → ')})`,
+          router: balancerDex.vault,
+          pool: poolIds.join(','),
+          amountOut: BigInt(swap.amountOut),
+          balancerSwap: swap
+        };
+      });
+      return best;
+    };
+
+    // Known tokens held by the pools, paired both ways wherever a path connects them
+    const tokens = new Map<string, TokenMetadata>();
+    for (const pool of pools) {
+      for (const { address } of pool.tokens || []) {
+        const token = tokenRegistry.get(address, chain);
+        if (token) tokens.set(token.address.toLowerCase(), token);
+      }
+    }
+
+    const candidates: Promise<any | null>[] = [];
+    for (const tokenIn of tokens.values()) {
+      for (const tokenOut of tokens.values()) {
+        if (tokenIn === tokenOut || this.getBalancerPaths(pools, tokenIn.address, tokenOut.address).length === 0) continue;
+        for (const sizeUsd of BOT_CONFIG.BALANCER.QUOTE_SIZES_USD) {
+          candidates.push(this.quoteRoundTrip(networkName, tokenIn, tokenOut, sizeUsd, quotePaths));
+        }
+      }
+    }
+
+    const opportunities = (await Promise.all(candidates)).filter(opportunity => opportunity !== null);
+    logger.info(`✅ Quoted ${pools.length} Balancer pools on ${network}, ${opportunities.length} profitable round trips`);
+    return opportunities;
+  }
+
+  // Direct pools first, then two-pool paths through a shared token
+  private getBalancerPaths(pools: any[], tokenIn: string, tokenOut: string): BalancerPathHop[][] {
+    const holds = (pool: any, token: string) => (pool.tokens || []).some((t: any) => t.address.toLowerCase() === token.toLowerCase());
+    const paths: BalancerPathHop[][] = pools
+      .filter(pool => holds(pool, tokenIn) && holds(pool, tokenOut))
+      .map(pool => [{ poolId: pool.id, tokenIn, tokenOut }]);
+
+    for (const first of pools) {
+      if (!holds(first, tokenIn)) continue;
+      for (const { address: middle } of first.tokens) {
+        // Composable pools list their own BPT among their tokens
+        if ([tokenIn, tokenOut, first.address].some(token => token?.toLowerCase() === middle.toLowerCase())) continue;
+        for (const second of pools) {
+          if (second !== first && holds(second, middle) && holds(second, tokenOut)) {
+            paths.push([{ poolId: first.id, tokenIn, tokenOut: middle }, { poolId: second.id, tokenIn: middle, tokenOut }]);
+          }
+        }
+      }
+    }
+
+    return paths.slice(0, BOT_CONFIG.BALANCER.MAX_PATHS);
+  }
+
+  /**
+   * Buy tokenOut where it returns more - the venue or the best Uniswap/Sushi pool - and sell it
+   * back on the other, so the profit is what the two swaps return with fees and impact included
+   */
+  private async quoteRoundTrip(
+    network: NetworkName,
+    tokenIn: TokenMetadata,
+    tokenOut: TokenMetadata,
+    sizeUsd: number,
+    quoteVenue: (tokenIn: string, tokenOut: string, amountIn: bigint) => Promise<VenueQuote | null>
+  ): Promise<any | null> {
+    try {
+      const amountIn = await this.usdToToken(network, tokenIn, sizeUsd);
+      if (!amountIn) return null;
+
+      const [venue, reference] = await Promise.all([
+        quoteVenue(tokenIn.address, tokenOut.address, amountIn),
+        this.getReferenceQuote(network, tokenIn.address, tokenOut.address, amountIn)
+      ]);
+      if (!venue || !reference) return null;
+
+      const buyOnVenue = venue.amountOut > reference.amountOut;
+      const buy = buyOnVenue ? venue : reference;
+      const sell = buyOnVenue
+        ? await this.getReferenceQuote(network, tokenOut.address, tokenIn.address, buy.amountOut)
+        : await quoteVenue(tokenOut.address, tokenIn.address, buy.amountOut);
+      if (!sell || sell.amountOut <= amountIn) return null;
+
+      const profit = sell.amountOut - amountIn;
+      const profitPercentage = Number((profit * 1_000_000n) / amountIn) / 10_000;
+      const format = (amount: bigint, token: TokenMetadata) => ethers.formatUnits(amount, token.decimals);
+      const hops: ArbitrageHop[] = [
+        { dex: buy.dex, router: buy.router, tokenIn: tokenIn.address, tokenOut: tokenOut.address, fee: buy.fee, amountOut: buy.amountOut.toString(), curveSwap: buy.curveSwap, balancerSwap: buy.balancerSwap },
+        { dex: sell.dex, router: sell.router, tokenIn: tokenOut.address, tokenOut: tokenIn.address, fee: sell.fee, amountOut: sell.amountOut.toString(), curveSwap: sell.curveSwap, balancerSwap: sell.balancerSwap }
+      ];
+
+      return {
+        id: `cross-dex-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+        type: 'cross-dex',
+        tokenPair: `${tokenIn.symbol}-${tokenOut.symbol}`,
+        tokenA: tokenIn.address,
+        tokenB: tokenOut.address,
+        amountIn: amountIn.toString(),
+        token_a: tokenIn.symbol,
+        token_b: tokenOut.symbol,
+        dexA: { name: buy.dex, router: buy.router, priceA: format(buy.amountOut, tokenOut) },
+        dexB: { name: sell.dex, router: sell.router, priceB: format(sell.amountOut, tokenIn) },
+        dex_a: buy.dex,
+        dex_b: sell.dex,
+        pool_a: buy.pool,
+        pool_b: sell.pool,
+        buyFrom: { source: buy.dex, pool: buy.pool, amountIn: format(amountIn, tokenIn), amountOut: format(buy.amountOut, tokenOut) },
+        sellTo: { source: sell.dex, pool: sell.pool, amountIn: format(buy.amountOut, tokenOut), amountOut: format(sell.amountOut, tokenIn) },
+        hops,
+        sizeUsd,
+        profitPercentage,
+        profit_percentage: profitPercentage,
+        estimatedProfit: parseFloat(format(profit, tokenIn)),
+        crossChain: false,
+        network: network.toLowerCase(),
+        timestamp: Date.now(),
+        priority: Math.floor(profitPercentage * 10),
+        source: 'Advanced DEX Monitor'
+      };
+    } catch (error) {
+      logger.debug(`Failed to quote ${tokenIn.symbol}/${tokenOut.symbol} round trip on ${network}:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  // Best output across the chain's Uniswap V2 forks and V3 fee tiers
+  private async getReferenceQuote(network: NetworkName, tokenIn: string, tokenOut: string, amountIn: bigint): Promise<VenueQuote | null> {
+    const deployment = CHAIN_DEPLOYMENTS[network]!;
+    const { multicall } = this.getChain(network);
+
+    const quotes = await Promise.all([
+      ...deployment.v2.map(dex =>
+        multicall.call(dex.router, this.V2_ROUTER_ABI, 'getAmountsOut', [amountIn, [tokenIn, tokenOut]])
+          .then(([amounts]) => ({ dex: dex.name, router: dex.router, fee: dex.fee, amountOut: amounts[amounts.length - 1] as bigint }), () => null)
+      ),
+      ...deployment.v3.flatMap(dex => dex.fees.map(fee =>
+        multicall.call(dex.quoter, this.V3_QUOTER_ABI, 'quoteExactInputSingle', [{ tokenIn, tokenOut, amountIn, fee: Math.round(fee * 1_000_000), sqrtPriceLimitX96: 0 }])
+          .then(([amountOut]) => ({ dex: `${dex.name} (${(fee * 100).toFixed(2)}%)`, router: dex.router, fee, amountOut: amountOut as bigint }), () => null)
+      ))
+    ]);
+
+    return quotes.reduce<VenueQuote | null>(
+      (best, quote) => quote && quote.amountOut > 0n && (!best || quote.amountOut > best.amountOut) ? quote : best,
+      null
+    );
+  }
+
+  // A USD trade size in the token's units, priced from USDC through the reference DEXs
+  private async usdToToken(network: NetworkName, token: TokenMetadata, sizeUsd: number): Promise<bigint | null> {
+    const usdc = tokenRegistry.getBySymbol('USDC', token.chain);
+    if (!usdc) return null;
+
+    const usdAmount = ethers.parseUnits(sizeUsd.toFixed(usdc.decimals), usdc.decimals);
+    if (usdc.address.toLowerCase() === token.address.toLowerCase()) return usdAmount;
+
+    const quote = await this.getReferenceQuote(network, usdc.address, token.address, usdAmount);
+    return quote ? quote.amountOut : null;
+  }
+
+  private getChain(network: NetworkName): { multicall: MulticallBatcher; curve: CurveAdapter; balancer?: BalancerAdapter } {
+    let chain = this.chains.get(network);
+    if (!chain) {
+      const multicall = MulticallBatcher.forProvider(new ethers.JsonRpcProvider(NETWORK_CONFIG[network].rpcUrl));
+      chain = { multicall, curve: new CurveAdapter(multicall) };
+      this.chains.set(network, chain);
+    }
+    return chain;
+  }
+
+  private getBalancer(network: NetworkName, balancerDex: BalancerDexConfig): BalancerAdapter {
+    const chain = this.getChain(network);
+    if (!chain.balancer) {
+      chain.balancer = new BalancerAdapter(chain.multicall, balancerDex.vault);
+    }
+    return chain.balancer;
+  }
+
   /**
    * Get real-time 1inch route analysis for specific trade
    */
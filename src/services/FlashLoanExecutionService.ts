@@ -2,6 +2,10 @@ import { FlashLoanProviderService } from './FlashLoanProviderService';
 import { AdvancedDEXService } from './AdvancedDEXService';
 import { MetaMaskService } from './MetaMaskService';
 import { MoralisService } from './MoralisService';
+import { ethers } from 'ethers';
+import { CostModel, CostLeg } from '../core/CostModel';
+import { tokenRegistry } from '../core/TokenRegistry';
+import { CHAIN_DEPLOYMENTS, DEX_CONFIG, NETWORK_CONFIG, NetworkName } from '../config/constants';
 
 interface ExecutionOpportunity {
   id: string;
@@ -32,6 +36,9 @@ interface ExecutionOpportunity {
     grossProfit: string;
     flashLoanFee: string;
     gasCost: string;
+    dexFees: string;
+    priceImpact: string;
+    slippageBuffer: string;
     netProfit: string;
     profitPercentage: number;
   };
@@ -80,6 +87,8 @@ export class FlashLoanExecutionService {
     maxExecutionTime: 300 // 5 minutes max
   };
 
+  private costModels: Map<string, { costModel: CostModel; provider: ethers.JsonRpcProvider | null }> = new Map();
+
   constructor() {
     this.flashLoanService = new FlashLoanProviderService();
     this.dexService = new AdvancedDEXService();
@@ -161,7 +170,7 @@ export class FlashLoanExecutionService {
       // Calculate precise profit including all costs
       const profitEstimate = await this.calculatePreciseProfit(opportunity, bestQuote, borrowAmount);
       
-      if (parseFloat(profitEstimate.netProfit) < parseFloat(this.riskParameters.minProfitThreshold)) {
+      if (!profitEstimate || parseFloat(profitEstimate.netProfit) < parseFloat(this.riskParameters.minProfitThreshold)) {
         return null; // Not profitable enough
       }
 
@@ -219,28 +228,102 @@ export class FlashLoanExecutionService {
     return Math.max(0.1, Math.min(optimalAmount, parseFloat(this.riskParameters.maxBorrowAmount))).toFixed(4);
   }
 
+  /**
+   * Price the opportunity with the shared cost model. Amounts here are in the borrowed token,
+   * and the upstream sources carry no rate to value gas in anything but the chain's wrapped
+   * native token, so only opportunities borrowing it are priced - null for the rest.
+   */
   private async calculatePreciseProfit(opportunity: any, flashLoanQuote: any, borrowAmount: string) {
-    const grossProfitETH = (parseFloat(borrowAmount) * opportunity.profit_percentage / 100);
-    const flashLoanFeeETH = parseFloat(flashLoanQuote.fee);
-    const gasCostETH = parseFloat(flashLoanQuote.totalCost) - flashLoanFeeETH;
-    
-    // Additional costs: DEX fees, slippage buffer
-    const dexFeesETH = grossProfitETH * 0.003 * 2; // 0.3% per DEX trade
-    const slippageBufferETH = grossProfitETH * this.riskParameters.maxSlippage;
-    
-    const totalCostsETH = flashLoanFeeETH + gasCostETH + dexFeesETH + slippageBufferETH;
-    const netProfitETH = grossProfitETH - totalCostsETH;
-    const profitPercentage = (netProfitETH / parseFloat(borrowAmount)) * 100;
+    const borrowToken = opportunity.token_a || 'WETH';
+    if (!this.borrowsWrappedNative(borrowToken, opportunity.network)) return null;
+
+    const costModel = await this.getCostModel(opportunity.network);
+    const amountIn = ethers.parseEther(borrowAmount);
+
+    const leg1 = this.estimateLeg(borrowToken, amountIn, amountIn, opportunity.protocol_a || opportunity.dex_a, opportunity.liquidity_a);
+    const leg2Spot = (leg1.amountOut * BigInt(Math.round((1 + opportunity.profit_percentage / 100) * 1_000_000))) / 1_000_000n;
+    const leg2 = this.estimateLeg(borrowToken, leg1.amountOut, leg2Spot, opportunity.protocol_b || opportunity.dex_b, opportunity.liquidity_b);
+
+    const breakdown = costModel.evaluate(
+      amountIn,
+      [leg1, leg2],
+      {
+        provider: flashLoanQuote.provider,
+        premium: parseFloat(flashLoanQuote.fee) / parseFloat(borrowAmount),
+        gasUnits: BigInt(flashLoanQuote.gasEstimate)
+      },
+      wei => wei
+    )!;
+
+    const format = (amount: bigint) => parseFloat(ethers.formatEther(amount)).toFixed(6);
+    const profitPercentage = Number((breakdown.netProfit * 1_000_000n) / amountIn) / 10_000;
 
     return {
-      grossProfit: grossProfitETH.toFixed(6),
-      flashLoanFee: flashLoanFeeETH.toFixed(6),
-      gasCost: gasCostETH.toFixed(6),
-      netProfit: netProfitETH.toFixed(6),
+      grossProfit: format(breakdown.grossProfit),
+      flashLoanFee: format(breakdown.flashLoanFee),
+      gasCost: format(breakdown.gasCost),
+      dexFees: format(breakdown.dexFees),
+      priceImpact: format(breakdown.priceImpact),
+      slippageBuffer: format(breakdown.slippageBuffer),
+      netProfit: format(breakdown.netProfit),
       profitPercentage: Math.round(profitPercentage * 100) / 100
     };
   }
 
+  // Whether `token` (symbol or address) is the wrapped native token gas is paid in, e.g. WETH
+  private borrowsWrappedNative(token: string, network: string = 'ethereum'): boolean {
+    const key = (Object.keys(NETWORK_CONFIG) as NetworkName[]).find(name => NETWORK_CONFIG[name].name.toLowerCase() === network.toLowerCase());
+    const deployment = key ? CHAIN_DEPLOYMENTS[key] : undefined;
+    if (!key || !deployment) return false;
+
+    const chain = NETWORK_CONFIG[key].name.toLowerCase();
+    const wrapped = tokenRegistry.getBySymbol(deployment.wrappedNative, chain);
+    const borrowed = ethers.isAddress(token) ? tokenRegistry.get(token, chain) : tokenRegistry.getBySymbol(token, chain);
+    return wrapped !== null && borrowed !== null && borrowed.address.toLowerCase() === wrapped.address.toLowerCase();
+  }
+
+  /**
+   * One swap valued in the borrowed token: the pool fee comes from DEX_CONFIG when the DEX
+   * is known, and price impact is approximated from the reported pool liquidity
+   */
+  private estimateLeg(token: string, amountIn: bigint, spotAmountOut: bigint, dex: string | undefined, liquidity: string | undefined): CostLeg {
+    const dexConfig = Object.values(DEX_CONFIG).find(config => config.name.toLowerCase() === (dex || '').toLowerCase());
+    const fee = dexConfig && 'fee' in dexConfig ? dexConfig.fee : 0.003;
+
+    const afterFee = spotAmountOut - (spotAmountOut * BigInt(Math.round(fee * 1_000_000))) / 1_000_000n;
+    const depth = this.parseLiquidity(liquidity);
+    const amountOut = depth > 0n ? (afterFee * depth) / (depth + amountIn) : afterFee;
+
+    return { tokenIn: token, tokenOut: token, amountIn, amountOut, fee, spotAmountOut };
+  }
+
+  // Pool depth in wei, parsed from the decimal string so large pools keep full precision; 0 (no
+  // price impact) when it isn't a plain decimal
+  private parseLiquidity(liquidity: string | undefined): bigint {
+    const match = /^(\d+)(?:\.(\d+))?$/.exec((liquidity || '').trim());
+    if (!match) return 0n;
+    return ethers.parseUnits(`${match[1]}.${(match[2] || '0').slice(0, 18)}`, 18);
+  }
+
+  // One cost model per network, its gas price refreshed from the chain when the RPC answers
+  private async getCostModel(network: string = 'ethereum'): Promise<CostModel> {
+    let entry = this.costModels.get(network);
+    if (!entry) {
+      const config = Object.values(NETWORK_CONFIG).find(chain => chain.name.toLowerCase() === network.toLowerCase());
+      entry = { costModel: new CostModel(), provider: config ? new ethers.JsonRpcProvider(config.rpcUrl) : null };
+      this.costModels.set(network, entry);
+    }
+
+    if (entry.provider) {
+      try {
+        await entry.costModel.refreshFeeData(entry.provider);
+      } catch (error) {
+        // Keeps the last known fee data, or the configured gas price
+      }
+    }
+    return entry.costModel;
+  }
+
   private assessRiskLevel(opportunity: any, profitEstimate: any): 'low' | 'medium' | 'high' {
     const profitRatio = parseFloat(profitEstimate.netProfit) / parseFloat(profitEstimate.grossProfit);
     const liquidityRatio = parseFloat(opportunity.liquidity_a || '0') / parseFloat(profitEstimate.grossProfit);
@@ -1,11 +1,14 @@
 import { ethers, parseEther, formatEther } from 'ethers';
 import axios from 'axios';
+import { FLASH_LOAN_PROVIDERS, NETWORK_CONFIG, NetworkName } from '../config/constants';
+import { tokenRegistry } from '../core/TokenRegistry';
+import { UniswapFlashLender } from '../core/UniswapFlashLender';
 
 interface FlashLoanProvider {
   name: string;
   protocol: string;
   network: string;
-  poolAddress: string;
+  poolAddress: string; // Uniswap flash swaps: the factory, the lending pool depends on the token
   fees: number; // in basis points (0.09% = 9)
   maxAmount: string;
   supportedTokens: string[];
@@ -82,6 +85,28 @@ export class FlashLoanProviderService {
         supportedTokens: ['WETH', 'USDC', 'DAI'],
         gasEstimate: 320000,
         reliability: 92
+      },
+      {
+        name: 'Uniswap V3 Flash',
+        protocol: 'uniswap-v3',
+        network: 'ethereum',
+        poolAddress: FLASH_LOAN_PROVIDERS.UNISWAP_V3.factory,
+        fees: 5, // The lending pool's fee tier, 0.05%
+        maxAmount: '5000000', // Bounded by the lending pool's balance
+        supportedTokens: ['WETH', 'USDC', 'USDT', 'DAI', 'WBTC', 'LINK', 'UNI', 'AAVE'],
+        gasEstimate: 220000,
+        reliability: 96
+      },
+      {
+        name: 'Uniswap V2 Flash Swap',
+        protocol: 'uniswap-v2',
+        network: 'ethereum',
+        poolAddress: FLASH_LOAN_PROVIDERS.UNISWAP_V2.factory,
+        fees: 30.09, // Repaid in the borrowed token at amount / 0.997
+        maxAmount: '1000000',
+        supportedTokens: ['WETH', 'USDC', 'USDT', 'DAI', 'WBTC', 'LINK', 'UNI', 'AAVE'],
+        gasEstimate: 200000,
+        reliability: 95
       }
     ];
 
@@ -97,6 +122,17 @@ export class FlashLoanProviderService {
         supportedTokens: ['WMATIC', 'USDC', 'USDT', 'DAI', 'WETH'],
         gasEstimate: 250000, // Lower gas on Polygon
         reliability: 97
+      },
+      {
+        name: 'Uniswap V3 Flash',
+        protocol: 'uniswap-v3',
+        network: 'polygon',
+        poolAddress: FLASH_LOAN_PROVIDERS.UNISWAP_V3.factory, // Same factory and pool addresses as Ethereum
+        fees: 5,
+        maxAmount: '1000000',
+        supportedTokens: ['WMATIC', 'USDC', 'USDT', 'DAI', 'WETH', 'WBTC'],
+        gasEstimate: 180000,
+        reliability: 94
       }
     ];
 
@@ -112,6 +148,17 @@ export class FlashLoanProviderService {
         supportedTokens: ['WETH', 'USDC', 'USDT', 'DAI', 'ARB'],
         gasEstimate: 200000, // Very low gas on Arbitrum
         reliability: 96
+      },
+      {
+        name: 'Uniswap V3 Flash',
+        protocol: 'uniswap-v3',
+        network: 'arbitrum',
+        poolAddress: FLASH_LOAN_PROVIDERS.UNISWAP_V3.factory, // Same factory and pool addresses as Ethereum
+        fees: 5,
+        maxAmount: '1000000',
+        supportedTokens: ['WETH', 'USDC', 'USDT', 'DAI', 'WBTC', 'ARB'],
+        gasEstimate: 180000,
+        reliability: 94
       }
     ];
 
@@ -127,6 +174,17 @@ export class FlashLoanProviderService {
         supportedTokens: ['WETH', 'USDC', 'USDT', 'DAI', 'OP'],
         gasEstimate: 180000,
         reliability: 94
+      },
+      {
+        name: 'Uniswap V3 Flash',
+        protocol: 'uniswap-v3',
+        network: 'optimism',
+        poolAddress: FLASH_LOAN_PROVIDERS.UNISWAP_V3.factory, // Same factory and pool addresses as Ethereum
+        fees: 5,
+        maxAmount: '1000000',
+        supportedTokens: ['WETH', 'USDC', 'USDT', 'DAI', 'WBTC', 'OP'],
+        gasEstimate: 180000,
+        reliability: 94
       }
     ];
 
@@ -157,6 +215,12 @@ export class FlashLoanProviderService {
         },
         'dydx': {
           soloMargin: '0x1E0447b19BB6EcFdAe1e4AE1694b0C3659614e4e'
+        },
+        'uniswap-v3': {
+          factory: FLASH_LOAN_PROVIDERS.UNISWAP_V3.factory
+        },
+        'uniswap-v2': {
+          factory: FLASH_LOAN_PROVIDERS.UNISWAP_V2.factory
         }
       },
       'polygon': {
@@ -175,11 +239,14 @@ export class FlashLoanProviderService {
     return networkProviders.filter(provider => 
       provider.supportedTokens.includes(token)
     ).sort((a, b) => {
-      // Sort by reliability first, then by fees (lower is better)
-      if (b.reliability !== a.reliability) {
-        return b.reliability - a.reliability;
+      // Cheapest first: fees, then gas. Reliability only breaks ties, it costs nothing on a trade that lands
+      if (a.fees !== b.fees) {
+        return a.fees - b.fees;
+      }
+      if (a.gasEstimate !== b.gasEstimate) {
+        return a.gasEstimate - b.gasEstimate;
       }
-      return a.fees - b.fees;
+      return b.reliability - a.reliability;
     });
   }
 
@@ -195,7 +262,7 @@ export class FlashLoanProviderService {
     for (const provider of providers) {
       try {
         const amountBN = parseEther(amount);
-        const feeBN = (amountBN * BigInt(provider.fees)) / BigInt(10000); // basis points to percentage
+        const feeBN = (amountBN * BigInt(Math.round(provider.fees * 100))) / BigInt(1000000); // basis points (to 2 decimals) to percentage
         const totalCostBN = feeBN + parseEther((provider.gasEstimate * 0.000000020).toString()); // Estimated gas cost
 
         quotes.push({
@@ -274,6 +341,35 @@ export class FlashLoanProviderService {
     ]);
   }
 
+  // Uniswap V3 flash(): the pool pairing the token with pairToken at the fee tier lends it
+  generateUniswapV3FlashCalldata(
+    token: string,
+    pairToken: string,
+    feeTier: number,
+    amount: string,
+    recipient: string,
+    data: string
+  ): { pool: string; calldata: string } {
+    const pool = UniswapFlashLender.getV3PoolAddress(FLASH_LOAN_PROVIDERS.UNISWAP_V3.factory, token, pairToken, feeTier);
+    const [token0, token1] = token.toLowerCase() < pairToken.toLowerCase() ? [token, pairToken] : [pairToken, token];
+    const lender = { kind: 'v3' as const, pool, token0, token1, fee: feeTier };
+    return { pool, calldata: UniswapFlashLender.encodeV3Flash(lender, token, BigInt(amount), recipient, data) };
+  }
+
+  // Uniswap V2 flash swap: swap() with callback data, repaid in the same token
+  generateUniswapV2FlashSwapCalldata(
+    token: string,
+    pairToken: string,
+    amount: string,
+    to: string,
+    data: string
+  ): { pool: string; calldata: string } {
+    const pool = UniswapFlashLender.getV2PairAddress(FLASH_LOAN_PROVIDERS.UNISWAP_V2.factory, token, pairToken);
+    const [token0, token1] = token.toLowerCase() < pairToken.toLowerCase() ? [token, pairToken] : [pairToken, token];
+    const lender = { kind: 'v2' as const, pool, token0, token1, fee: FLASH_LOAN_PROVIDERS.UNISWAP_V2.fee };
+    return { pool, calldata: UniswapFlashLender.encodeV2FlashSwap(lender, token, BigInt(amount), to, data) };
+  }
+
   // dYdX Flash Loan Contract Interface  
   generateDyDxFlashLoanCalldata(
     token: string,
@@ -432,6 +528,24 @@ export class FlashLoanProviderService {
           ethers.AbiCoder.defaultAbiCoder().encode(['tuple(string,string,string,string)'], [tradePath])
         );
         
+      case 'uniswap-v3':
+      case 'uniswap-v2': {
+        // Borrowed from the token's pool against WETH, or USDC when WETH is the token
+        const chain = NETWORK_CONFIG[provider.network.toUpperCase() as NetworkName]?.name.toLowerCase() || provider.network;
+        const asset = tokenRegistry.getBySymbol(token, chain);
+        const pairToken = tokenRegistry.getBySymbol(token === 'WETH' ? 'USDC' : 'WETH', chain);
+        if (!asset || !pairToken) {
+          throw new Error(`Unknown token ${token} for ${provider.name} on ${provider.network}`);
+        }
+
+        const receiver = FLASH_LOAN_PROVIDERS.UNISWAP_V3.receiverAddress || ethers.ZeroAddress; // Will be execution contract
+        const amountRaw = ethers.parseUnits(amount, asset.decimals).toString();
+        const data = ethers.AbiCoder.defaultAbiCoder().encode(['tuple(string,string,string,string)'], [tradePath]);
+        return provider.protocol === 'uniswap-v3'
+          ? this.generateUniswapV3FlashCalldata(asset.address, pairToken.address, provider.fees / 10000, amountRaw, receiver, data).calldata
+          : this.generateUniswapV2FlashSwapCalldata(asset.address, pairToken.address, amountRaw, receiver, data).calldata;
+      }
+
       case 'dydx':
         return this.generateDyDxFlashLoanCalldata(
           token,
@@ -2,6 +2,9 @@ import axios from 'axios';
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
 import { PriceData } from '../core/PriceMonitor';
+import { tokenRegistry } from '../core/TokenRegistry';
+import { MulticallBatcher, MulticallStats } from '../core/MulticallBatcher';
+import { BOT_CONFIG, QUOTE_CURRENCY_TOKENS } from '../config/constants';
 
 /**
  * Real-time price service integrating multiple data sources
@@ -14,21 +17,18 @@ export class PriceService {
   private cache: Map<string, { data: any, timestamp: number }> = new Map();
   private cacheTimeout = 30000; // 30 seconds
 
-  // Token mappings for real contracts
-  private readonly tokenAddresses = {
-    'WETH': '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
-    'WBTC': '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
-    'LINK': '0x514910771AF9Ca656af840dff83E8264EcF986CA',
-    'UNI': '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984',
-    'AAVE': '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9'
-  };
+  // Subgraph pairs are only reported when they trade one of these
+  private readonly trackedTokens = ['WETH', 'WBTC', 'LINK', 'UNI', 'AAVE'];
 
   private readonly coinGeckoIds = {
     'WETH': 'ethereum',
     'WBTC': 'wrapped-bitcoin', 
     'LINK': 'chainlink',
     'UNI': 'uniswap',
-    'AAVE': 'aave'
+    'AAVE': 'aave',
+    'USDC': 'usd-coin',
+    'USDT': 'tether',
+    'DAI': 'dai'
   };
 
   constructor() {
@@ -116,11 +116,13 @@ export class PriceService {
               id
               symbol
               name
+              decimals
             }
             token1 {
               id
               symbol
-              name  
+              name
+              decimals
             }
             reserve0
             reserve1
@@ -179,11 +181,13 @@ export class PriceService {
               id
               symbol
               name
+              decimals
             }
             token1 {
               id
               symbol
               name
+              decimals
             }
             feeTier
             liquidity
@@ -242,11 +246,13 @@ export class PriceService {
               id
               symbol
               name
+              decimals
             }
             token1 {
               id
               symbol
               name
+              decimals
             }
             reserve0
             reserve1
@@ -361,14 +367,22 @@ export class PriceService {
           
           // Only consider opportunities with >0.5% profit
           if (profitPercentage > 0.5) {
+            // Size at one whole token0 in its own decimals and value the spread in the quote currency
+            const decimals = Number(lowest.token0.decimals ?? tokenRegistry.get(lowest.token0.id)?.decimals ?? 18);
+            const amountIn = ethers.parseUnits('1', decimals);
+            const profit = (amountIn * BigInt(Math.round(profitPercentage * 10_000))) / 1_000_000n;
+            const profitInQuote = this.valueInQuoteCurrency(profit, decimals, lowest.token0.symbol, basePrices);
+            if (profitInQuote === null) continue;
+
             opportunities.push({
               id: `real-${Date.now()}-${Math.random().toString(36).substring(7)}`,
               tokenA: lowest.token0.id,
               tokenB: lowest.token1.id,
               tokenASymbol: lowest.token0.symbol,
               tokenBSymbol: lowest.token1.symbol,
-              amountIn: '1.0', // 1 ETH equivalent
-              expectedProfit: (profitPercentage / 100).toFixed(6),
+              amountIn: amountIn.toString(),
+              expectedProfit: ethers.formatUnits(profitInQuote, this.getQuoteDecimals()),
+              profitCurrency: BOT_CONFIG.QUOTE_CURRENCY,
               profitPercentage: profitPercentage,
               dexA: {
                 name: lowest.source,
@@ -405,20 +419,26 @@ export class PriceService {
   async getBlockchainData(): Promise<{
     blockNumber: number,
     gasPrice: string,
-    timestamp: number
+    timestamp: number,
+    multicall: MulticallStats
   }> {
     try {
       const provider = this.providers[0];
-      
-      const [blockNumber, feeData] = await Promise.all([
-        provider.getBlockNumber(),
-        provider.getFeeData()
+      const multicall = MulticallBatcher.forProvider(provider);
+
+      // Block number and base fee ride in the same aggregate3 as any other read this tick.
+      // Nodes without eth_maxPriorityFeePerGas report the base fee alone
+      const [blockNumber, basefee, priorityFee] = await Promise.all([
+        multicall.getBlockNumber(),
+        multicall.getBasefee(),
+        provider.send('eth_maxPriorityFeePerGas', []).then((fee: string) => BigInt(fee)).catch(() => 0n)
       ]);
 
       return {
         blockNumber,
-        gasPrice: feeData.gasPrice?.toString() || '0',
-        timestamp: Date.now()
+        gasPrice: (basefee + priorityFee).toString(),
+        timestamp: Date.now(),
+        multicall: multicall.getStats()
       };
     } catch (error) {
       logger.error('Error fetching blockchain data:', error);
@@ -428,7 +448,30 @@ export class PriceService {
 
   // Helper methods
   private isTrackedToken(symbol: string): boolean {
-    return Object.keys(this.tokenAddresses).includes(symbol);
+    return this.trackedTokens.includes(symbol);
+  }
+
+  /**
+   * Value a raw token amount in the configured quote currency using CoinGecko USD prices.
+   * Prices are scaled to 8 decimals so the conversion itself stays in integer math.
+   */
+  private valueInQuoteCurrency(amount: bigint, decimals: number, symbol: string, basePrices: Map<string, PriceData>): bigint | null {
+    const tokenPrice = basePrices.get(symbol);
+    if (!tokenPrice) return null;
+
+    let quotePriceE8 = 100_000_000n; // 1 USD
+    if (BOT_CONFIG.QUOTE_CURRENCY === 'ETH') {
+      const ethPrice = basePrices.get('WETH');
+      if (!ethPrice) return null;
+      quotePriceE8 = BigInt(Math.round(ethPrice.price * 1e8));
+    }
+
+    const tokenPriceE8 = BigInt(Math.round(tokenPrice.price * 1e8));
+    return (amount * tokenPriceE8 * 10n ** BigInt(this.getQuoteDecimals())) / (10n ** BigInt(decimals) * quotePriceE8);
+  }
+
+  private getQuoteDecimals(): number {
+    return tokenRegistry.getBySymbol(QUOTE_CURRENCY_TOKENS[BOT_CONFIG.QUOTE_CURRENCY])!.decimals;
   }
 
   private getDexRouter(source: string): string {
@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+
+import dotenv from 'dotenv';
+import { logger } from './utils/logger';
+import { BOT_CONFIG } from './config/constants';
+import { KeystoreSignerProvider } from './signers/KeystoreSignerProvider';
+import { LocalSignerServer } from './signers/LocalSignerServer';
+import { takeSignerSecrets } from './signers/SignerProvider';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Local remote-signer stand-in
+ * Decrypts SIGNER_KEYSTORE_PATH and signs for the bot over HTTP; run the bot with
+ * SIGNER_TYPE=remote, SIGNER_URL=http://127.0.0.1:<SIGNER_SERVER_PORT> and the same SIGNER_AUTH_TOKEN
+ */
+let server: LocalSignerServer | null = null;
+
+const shutdown = async (signal: string) => {
+  logger.info(`Received ${signal} signal`);
+  await server?.stop();
+  process.exit(0);
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+async function main(): Promise<void> {
+  const { KEYSTORE_PATH, KEYSTORE_PASSPHRASE_FILE, REMOTE_AUTH_TOKEN, SERVER_PORT } = BOT_CONFIG.SIGNER;
+  const { keystorePassphrase } = takeSignerSecrets();
+  if (!KEYSTORE_PATH) throw new Error('SIGNER_KEYSTORE_PATH is required');
+  if (!REMOTE_AUTH_TOKEN) throw new Error('SIGNER_AUTH_TOKEN is required, the bot sends it with every request');
+
+  const signer = await new KeystoreSignerProvider(KEYSTORE_PATH, KEYSTORE_PASSPHRASE_FILE || undefined, keystorePassphrase).getSigner();
+  server = new LocalSignerServer(signer, REMOTE_AUTH_TOKEN);
+  await server.start(SERVER_PORT);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
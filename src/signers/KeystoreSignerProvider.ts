@@ -0,0 +1,83 @@
+import { readFile } from 'fs/promises';
+import readline from 'readline';
+import { Writable } from 'stream';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { SignerProvider, TradingSigner } from './SignerProvider';
+
+/**
+ * An encrypted JSON keystore (Web3 Secret Storage, as written by geth, `cast wallet import` or
+ * ethers' Wallet.encrypt). The passphrase is read from `passphraseFile`, else is the one given
+ * (KEYSTORE_PASSPHRASE, see takeSignerSecrets), else prompted for on the terminal.
+ * The key is decrypted once and only kept in memory.
+ */
+export class KeystoreSignerProvider implements SignerProvider {
+  readonly type = 'keystore' as const;
+  private path: string;
+  private passphraseFile?: string;
+  private passphrase?: string;
+  private wallet: ethers.Wallet | null = null;
+
+  constructor(path: string, passphraseFile?: string, passphrase?: string) {
+    this.path = path;
+    this.passphraseFile = passphraseFile;
+    this.passphrase = passphrase;
+  }
+
+  describe(): string {
+    return `keystore ${this.path}${this.wallet ? ` (${this.wallet.address})` : ''}`;
+  }
+
+  async getSigner(provider?: ethers.Provider): Promise<TradingSigner> {
+    if (!this.wallet) this.wallet = await this.decrypt();
+    return provider ? this.wallet.connect(provider) : this.wallet;
+  }
+
+  private async decrypt(): Promise<ethers.Wallet> {
+    const json = await readFile(this.path, 'utf8');
+    const address: string | undefined = JSON.parse(json).address; // Optional, unprefixed in most keystores
+    const passphrase = await this.getPassphrase(address ? ethers.getAddress(address.replace(/^(0x)?/, '0x')) : this.path);
+
+    const started = Date.now();
+    const account = await ethers.Wallet.fromEncryptedJson(json, passphrase);
+    logger.debug(`Keystore ${this.path} decrypted in ${Date.now() - started}ms`);
+    return account instanceof ethers.Wallet ? account : new ethers.Wallet(account.privateKey);
+  }
+
+  private async getPassphrase(account: string): Promise<string> {
+    if (this.passphraseFile) {
+      return (await readFile(this.passphraseFile, 'utf8')).replace(/\r?\n$/, '');
+    }
+
+    if (this.passphrase !== undefined) {
+      const passphrase = this.passphrase;
+      this.passphrase = undefined; // Only needed for the one decryption
+      return passphrase;
+    }
+
+    if (!process.stdin.isTTY) {
+      throw new Error(`No passphrase for keystore ${this.path}: set KEYSTORE_PASSPHRASE_FILE or run interactively`);
+    }
+    return await this.prompt(`Passphrase for ${account}: `);
+  }
+
+  // Reads a line from the terminal without echoing it
+  private prompt(question: string): Promise<string> {
+    return new Promise(resolve => {
+      let muted = false;
+      const output = new Writable({
+        write: (chunk, encoding, callback) => {
+          if (!muted) process.stdout.write(chunk, encoding);
+          callback();
+        }
+      });
+      const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+      rl.question(question, answer => {
+        rl.close();
+        process.stdout.write('\n');
+        resolve(answer);
+      });
+      muted = true;
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { SignerProvider, TradingSigner } from './SignerProvider';
+
+/**
+ * A raw private key held in memory, the legacy PRIVATE_KEY setup. createSignerProvider removes the
+ * variable from the environment before picking a signer so child processes and crash dumps of the
+ * environment don't carry it, but the key still passed through .env - prefer a keystore or remote signer.
+ */
+export class LocalKeySignerProvider implements SignerProvider {
+  readonly type = 'env' as const;
+  private wallet: ethers.Wallet;
+
+  constructor(privateKey: string) {
+    this.wallet = new ethers.Wallet(privateKey);
+  }
+
+  // The PRIVATE_KEY read by takeSignerSecrets, null when it wasn't set
+  static fromKey(privateKey: string | undefined): LocalKeySignerProvider | null {
+    if (!privateKey) return null;
+
+    logger.warn('Signing with PRIVATE_KEY from the environment, consider SIGNER_KEYSTORE_PATH or SIGNER_URL instead');
+    return new LocalKeySignerProvider(privateKey);
+  }
+
+  describe(): string {
+    return `local key ${this.wallet.address}`;
+  }
+
+  async getSigner(provider?: ethers.Provider): Promise<TradingSigner> {
+    return provider ? this.wallet.connect(provider) : this.wallet;
+  }
+}
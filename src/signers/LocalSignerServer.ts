@@ -0,0 +1,115 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import express from 'express';
+import { Server } from 'http';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { TradingSigner } from './SignerProvider';
+
+class SignerError extends Error {
+  constructor(message: string, readonly code: number = -32602) {
+    super(message);
+  }
+}
+
+/**
+ * Stand-in for a remote signing service, speaking the protocol RemoteSigner expects on behalf of
+ * one account. Runs as its own process (npm run signer-server) so the bot can be exercised with
+ * SIGNER_TYPE=remote without a Web3Signer or Clef deployment; the key stays in this process.
+ * Every request must carry the bearer token, anything else on the machine could sign otherwise.
+ */
+export class LocalSignerServer {
+  private signer: TradingSigner;
+  private authToken: Buffer; // SHA-256 of the token, so comparisons don't depend on its length
+  private app: express.Application;
+  private server: Server | null = null;
+
+  constructor(signer: TradingSigner, authToken: string) {
+    if (!authToken) throw new Error('The signer server needs an auth token (SIGNER_AUTH_TOKEN)');
+    this.signer = signer;
+    this.authToken = createHash('sha256').update(authToken).digest();
+    this.app = express();
+    this.app.use(express.json({ limit: '1mb' }));
+    this.app.post('/', (req, res) => { this.handle(req, res); });
+  }
+
+  async start(port: number): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server = this.app.listen(port, '127.0.0.1', () => resolve());
+      this.server.on('error', reject);
+    });
+    logger.success(`Signer for ${this.signer.address} listening on http://127.0.0.1:${port}`);
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => {
+      if (this.server) this.server.close(() => resolve());
+      else resolve();
+    });
+    this.server = null;
+  }
+
+  private async handle(req: express.Request, res: express.Response): Promise<void> {
+    const request = req.body || {};
+    const reply = (status: number, payload: object) => res.status(status).json({ jsonrpc: '2.0', id: request.id ?? null, ...payload });
+
+    if (!this.authorized(req.header('Authorization'))) {
+      reply(401, { error: { code: -32600, message: 'Unauthorized' } });
+      return;
+    }
+
+    try {
+      reply(200, { result: await this.dispatch(request.method, Array.isArray(request.params) ? request.params : []) });
+    } catch (error) {
+      const code = error instanceof SignerError ? error.code : -32000;
+      reply(error instanceof SignerError ? 400 : 500, { error: { code, message: error instanceof Error ? error.message : String(error) } });
+    }
+  }
+
+  private async dispatch(method: string, params: any[]): Promise<unknown> {
+    switch (method) {
+      case 'eth_accounts':
+        return [this.signer.address];
+      case 'eth_signTransaction': {
+        const tx = params[0] || {};
+        this.requireAccount(tx.from);
+        logger.info(`Signing transaction to ${tx.to ?? 'a new contract'} (nonce ${tx.nonce === undefined ? '?' : Number(tx.nonce)})`);
+        return await this.signer.signTransaction({
+          to: tx.to ?? null,
+          nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+          gasLimit: tx.gas,
+          gasPrice: tx.gasPrice,
+          maxFeePerGas: tx.maxFeePerGas,
+          maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+          value: tx.value,
+          data: tx.data,
+          chainId: tx.chainId,
+          type: tx.type === undefined ? undefined : Number(tx.type)
+        });
+      }
+      case 'eth_sign':
+        this.requireAccount(params[0]);
+        if (typeof params[1] !== 'string' || !ethers.isHexString(params[1])) throw new SignerError('Message must be hex encoded');
+        return await this.signer.signMessage(ethers.getBytes(params[1]));
+      case 'eth_signTypedData_v4': {
+        this.requireAccount(params[0]);
+        const { domain, types, message } = typeof params[1] === 'string' ? JSON.parse(params[1]) : params[1] || {};
+        const { EIP712Domain: _domain, ...messageTypes } = types || {};
+        return await this.signer.signTypedData(domain, messageTypes, message);
+      }
+      default:
+        throw new SignerError(`Method ${method} not supported`, -32601);
+    }
+  }
+
+  // Constant time, so response timing doesn't leak how much of a guessed token was right
+  private authorized(header: string | undefined): boolean {
+    const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    return timingSafeEqual(createHash('sha256').update(token).digest(), this.authToken);
+  }
+
+  private requireAccount(address: unknown): void {
+    if (typeof address !== 'string' || !ethers.isAddress(address) || ethers.getAddress(address) !== this.signer.address) {
+      throw new SignerError(`Unknown account ${address}`);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+import { SignerProvider, TradingSigner } from './SignerProvider';
+
+export interface RemoteSignerOptions {
+  address?: string; // Account to sign with, the signer's first when unset
+  authToken?: string; // Sent as a bearer token
+  timeout?: number;
+}
+
+/**
+ * Signs over HTTP with the JSON-RPC methods Web3Signer and Clef-style signers expose:
+ * eth_accounts, eth_signTransaction (returns the raw signed transaction), eth_sign (EIP-191
+ * personal message) and eth_signTypedData_v4. The key never enters this process; every
+ * signature that comes back is checked against the account and, for transactions, against
+ * what was asked to be signed.
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+  readonly address: string;
+  readonly url: string;
+  private options: RemoteSignerOptions;
+  private requestId: number = 0;
+
+  constructor(url: string, address: string, options: RemoteSignerOptions = {}, provider: ethers.Provider | null = null) {
+    super(provider);
+    this.url = url;
+    this.address = ethers.getAddress(address);
+    this.options = options;
+  }
+
+  // Connects to the signer and picks the account, checking the signer actually holds it
+  static async fromUrl(url: string, options: RemoteSignerOptions = {}, provider: ethers.Provider | null = null): Promise<RemoteSigner> {
+    const probe = new RemoteSigner(url, ethers.ZeroAddress, options);
+    const accounts: string[] = (await probe.request('eth_accounts', [])).map((account: string) => ethers.getAddress(account));
+    if (accounts.length === 0) throw new Error(`Remote signer ${url} holds no accounts`);
+
+    const address = options.address ? ethers.getAddress(options.address) : accounts[0];
+    if (!accounts.includes(address)) throw new Error(`Remote signer ${url} doesn't hold ${address}`);
+    return new RemoteSigner(url, address, options, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, this.options, provider);
+  }
+
+  async signTransaction(request: ethers.TransactionRequest): Promise<string> {
+    const to = request.to ? await ethers.resolveAddress(request.to, this.provider) : null;
+    if (request.from && ethers.getAddress(await ethers.resolveAddress(request.from, this.provider)) !== this.address) {
+      throw new Error(`Transaction from ${request.from} can't be signed by ${this.address}`);
+    }
+
+    const quantity = (value: ethers.BigNumberish | null | undefined) => value === null || value === undefined ? undefined : ethers.toQuantity(value);
+    const raw: string = await this.request('eth_signTransaction', [{
+      from: this.address,
+      to,
+      nonce: quantity(request.nonce),
+      gas: quantity(request.gasLimit),
+      gasPrice: quantity(request.gasPrice),
+      maxFeePerGas: quantity(request.maxFeePerGas),
+      maxPriorityFeePerGas: quantity(request.maxPriorityFeePerGas),
+      value: quantity(request.value ?? 0),
+      data: request.data ?? '0x',
+      chainId: quantity(request.chainId),
+      type: quantity(request.type)
+    }]);
+
+    const signed = ethers.Transaction.from(raw);
+    const mismatch = signed.from !== this.address
+      || (signed.to ?? null) !== (to === null ? null : ethers.getAddress(to))
+      || signed.data !== ethers.hexlify(request.data ?? '0x')
+      || signed.value !== BigInt(request.value ?? 0)
+      || (request.nonce !== undefined && request.nonce !== null && signed.nonce !== Number(request.nonce));
+    if (mismatch) throw new Error(`Remote signer returned a transaction other than the one requested`);
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+    const signature: string = await this.request('eth_sign', [this.address, ethers.hexlify(data)]);
+    if (ethers.verifyMessage(data, signature) !== this.address) {
+      throw new Error(`Remote signer returned a message signature not made by ${this.address}`);
+    }
+    return signature;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    const signature: string = await this.request('eth_signTypedData_v4', [this.address, JSON.stringify(payload)]);
+    if (ethers.verifyTypedData(domain, types, value, signature) !== this.address) {
+      throw new Error(`Remote signer returned a typed data signature not made by ${this.address}`);
+    }
+    return signature;
+  }
+
+  private async request(method: string, params: unknown[]): Promise<any> {
+    const response = await axios.post(this.url, { jsonrpc: '2.0', id: ++this.requestId, method, params }, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.authToken ? { Authorization: `Bearer ${this.options.authToken}` } : {})
+      },
+      timeout: this.options.timeout ?? 5000,
+      validateStatus: () => true
+    });
+
+    const error = response.data?.error;
+    if (error) throw new Error(`Remote signer ${method} failed: ${error.message || JSON.stringify(error)}`);
+    if (response.status >= 400 || response.data?.result === undefined) {
+      throw new Error(`Remote signer ${method} failed: HTTP ${response.status}`);
+    }
+    return response.data.result;
+  }
+}
+
+// A signer service at `url`, see RemoteSigner for the protocol
+export class RemoteSignerProvider implements SignerProvider {
+  readonly type = 'remote' as const;
+  private url: string;
+  private options: RemoteSignerOptions;
+
+  constructor(url: string, options: RemoteSignerOptions = {}) {
+    this.url = url;
+    this.options = options;
+  }
+
+  describe(): string {
+    return `remote signer ${this.url}${this.options.address ? ` (${this.options.address})` : ''}`;
+  }
+
+  async getSigner(provider?: ethers.Provider): Promise<TradingSigner> {
+    return await RemoteSigner.fromUrl(this.url, this.options, provider ?? null);
+  }
+}
@@ -0,0 +1,53 @@
+import { ethers } from 'ethers';
+import { BOT_CONFIG } from '../config/constants';
+import { LocalKeySignerProvider } from './LocalKeySignerProvider';
+import { KeystoreSignerProvider } from './KeystoreSignerProvider';
+import { RemoteSignerProvider } from './RemoteSigner';
+
+// A signer whose address is known up front, as the nonce manager and simulations need it synchronously
+export type TradingSigner = ethers.Signer & { readonly address: string };
+
+/**
+ * Where the trading key comes from. Implementations hand out a signer connected to the given
+ * provider and keep the key material itself out of the process environment.
+ */
+export interface SignerProvider {
+  readonly type: typeof BOT_CONFIG.SIGNER.TYPE;
+  describe(): string; // For logs, never includes secrets
+  getSigner(provider?: ethers.Provider): Promise<TradingSigner>;
+}
+
+export interface SignerSecrets {
+  privateKey?: string; // PRIVATE_KEY
+  keystorePassphrase?: string; // KEYSTORE_PASSPHRASE
+}
+
+// Reads and removes every secret the signers accept from the environment, whichever one is used
+export function takeSignerSecrets(): SignerSecrets {
+  const secrets = { privateKey: process.env.PRIVATE_KEY, keystorePassphrase: process.env.KEYSTORE_PASSPHRASE };
+  delete process.env.PRIVATE_KEY;
+  delete process.env.KEYSTORE_PASSPHRASE;
+  return secrets;
+}
+
+// The provider BOT_CONFIG.SIGNER selects, null when none is configured (monitoring only)
+export function createSignerProvider(): SignerProvider | null {
+  const { TYPE, KEYSTORE_PATH, KEYSTORE_PASSPHRASE_FILE, REMOTE_URL, REMOTE_ADDRESS, REMOTE_AUTH_TOKEN, REMOTE_TIMEOUT } = BOT_CONFIG.SIGNER;
+  const { privateKey, keystorePassphrase } = takeSignerSecrets();
+  switch (TYPE) {
+    case 'keystore':
+      if (!KEYSTORE_PATH) throw new Error('SIGNER_KEYSTORE_PATH is required for the keystore signer');
+      return new KeystoreSignerProvider(KEYSTORE_PATH, KEYSTORE_PASSPHRASE_FILE || undefined, keystorePassphrase);
+    case 'remote':
+      if (!REMOTE_URL) throw new Error('SIGNER_URL is required for the remote signer');
+      return new RemoteSignerProvider(REMOTE_URL, {
+        address: REMOTE_ADDRESS || undefined,
+        authToken: REMOTE_AUTH_TOKEN || undefined,
+        timeout: REMOTE_TIMEOUT
+      });
+    case 'env':
+      return LocalKeySignerProvider.fromKey(privateKey);
+    default:
+      throw new Error(`Unknown SIGNER_TYPE ${TYPE}`);
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Integer AMM math shared by the opportunity finder.
+ * Everything works on raw token units (bigint) so results match the contracts exactly.
+ */
+
+export const FEE_DENOMINATOR = 10000n;
+const Q192 = 1n << 192n;
+const WAD = 10n ** 18n;
+
+export interface ConstantProductPool {
+  reserveIn: bigint;
+  reserveOut: bigint;
+  feeBps: bigint; // swap fee in basis points, 30 = 0.3%
+}
+
+// Convert a fractional fee from DEX_CONFIG (0.003) into basis points (30)
+export function feeToBps(fee: number): bigint {
+  return BigInt(Math.round(fee * Number(FEE_DENOMINATOR)));
+}
+
+// Integer square root (floor) via Newton's method
+export function sqrt(value: bigint): bigint {
+  if (value < 0n) throw new Error('Square root of negative value');
+  if (value < 2n) return value;
+
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
+
+// Uniswap V2 getAmountOut, generalised over the fee
+export function getAmountOut(amountIn: bigint, pool: ConstantProductPool): bigint {
+  if (amountIn <= 0n || pool.reserveIn <= 0n || pool.reserveOut <= 0n) return 0n;
+
+  const amountInWithFee = amountIn * (FEE_DENOMINATOR - pool.feeBps);
+  const numerator = amountInWithFee * pool.reserveOut;
+  const denominator = pool.reserveIn * FEE_DENOMINATOR + amountInWithFee;
+  return numerator / denominator;
+}
+
+// Output at the pool's mid price, with no fee and no price impact
+export function getSpotAmountOut(amountIn: bigint, pool: ConstantProductPool): bigint {
+  if (pool.reserveIn <= 0n) return 0n;
+  return (amountIn * pool.reserveOut) / pool.reserveIn;
+}
+
+// Same for a V3 pool from slot0's sqrtPriceX96 (token1 per token0, Q64.96)
+export function getV3SpotAmountOut(amountIn: bigint, sqrtPriceX96: bigint, zeroForOne: boolean): bigint {
+  const priceX192 = sqrtPriceX96 * sqrtPriceX96;
+  if (priceX192 === 0n) return 0n;
+  return zeroForOne ? (amountIn * priceX192) / Q192 : (amountIn * Q192) / priceX192;
+}
+
+/**
+ * Input size that maximises profit for the cycle X -> Y on `first`, Y -> X on `second`.
+ *
+ * Chaining two constant-product swaps gives out(x) = A·x / (B + C·x), so profit
+ * out(x) - x peaks where out'(x) = 1, i.e. x* = (√(A·B) - B) / C. With γ = g / D:
+ *   x* = (D·√(g1·g2·a1·b1·a2·b2) - D²·a1·b2) / (g1·(D·b2 + g2·b1))
+ * where a1/b1 are the first pool's in/out reserves and b2/a2 the second pool's.
+ * Returns 0n when the pools are not out of line by more than their fees.
+ */
+export function getOptimalCycleInput(first: ConstantProductPool, second: ConstantProductPool): bigint {
+  const g1 = FEE_DENOMINATOR - first.feeBps;
+  const g2 = FEE_DENOMINATOR - second.feeBps;
+  const a1 = first.reserveIn;
+  const b1 = first.reserveOut;
+  const b2 = second.reserveIn;
+  const a2 = second.reserveOut;
+
+  if (a1 <= 0n || b1 <= 0n || a2 <= 0n || b2 <= 0n) return 0n;
+
+  const root = sqrt(g1 * g2 * a1 * b1 * a2 * b2);
+  const numerator = FEE_DENOMINATOR * root - FEE_DENOMINATOR * FEE_DENOMINATOR * a1 * b2;
+  if (numerator <= 0n) return 0n;
+
+  return numerator / (g1 * (FEE_DENOMINATOR * b2 + g2 * b1));
+}
+
+// Round trip X -> Y -> X through two pools, returning the final X amount
+export function getCycleAmountOut(amountIn: bigint, first: ConstantProductPool, second: ConstantProductPool): bigint {
+  return getAmountOut(getAmountOut(amountIn, first), second);
+}
+
+export interface SolidlyPool {
+  reserveIn: bigint;
+  reserveOut: bigint;
+  decimalsIn: bigint; // 10 ** decimals, as the pool's metadata() reports it
+  decimalsOut: bigint;
+  stable: boolean;
+}
+
+/**
+ * Mid-price output of a Solidly-fork pool (Velodrome, Aerodrome), before fee and impact.
+ * Volatile pools are constant product. Stable pools hold k = x³y + y³x on 18-decimal
+ * normalised reserves, whose marginal rate is dy/dx = (3x²y + y³) / (x³ + 3xy²).
+ */
+export function getSolidlySpotAmountOut(amountIn: bigint, pool: SolidlyPool): bigint {
+  if (pool.reserveIn <= 0n || pool.reserveOut <= 0n) return 0n;
+  if (!pool.stable) return (amountIn * pool.reserveOut) / pool.reserveIn;
+
+  const x = (pool.reserveIn * WAD) / pool.decimalsIn;
+  const y = (pool.reserveOut * WAD) / pool.decimalsOut;
+  const normalizedIn = (amountIn * WAD) / pool.decimalsIn;
+
+  const normalizedOut = (normalizedIn * (3n * x * x * y + y * y * y)) / (x * x * x + 3n * x * y * y);
+  return (normalizedOut * pool.decimalsOut) / WAD;
+}
@@ -0,0 +1,126 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { ArbitrageExecutorContract, ExecutorRoute } from '../src/core/ArbitrageExecutorContract';
+import { LocalChain, startLocalChain } from './helpers/localChain';
+
+const E18 = 10n ** 18n;
+
+// Revert data of a failed eth_call, wherever ethers put it
+function revertData(error: any): string {
+  const data = [error?.data, error?.info?.error?.data, error?.error?.data].find(candidate => typeof candidate === 'string' && candidate.length > 2);
+  assert.ok(data, `no revert data in ${error?.message}`);
+  return data;
+}
+
+describe('ArbitrageExecutor', () => {
+  let chain: LocalChain;
+  let executor: ethers.Contract;
+  let lender: ethers.Contract;
+  let weth: ethers.Contract;
+  let usdt: ethers.Contract;
+  let cheap: ethers.Contract; // Sells USDT cheap for WETH
+  let dear: ethers.Contract; // Buys USDT dear in WETH
+
+  before(async () => {
+    chain = await startLocalChain();
+    const [owner] = chain.wallets;
+    executor = await chain.deploy('ArbitrageExecutor');
+    lender = await chain.deploy('TestLender', [0]);
+    weth = await chain.deploy('TestToken');
+    usdt = await chain.deploy('NoReturnToken');
+
+    // token0 is WETH in both pairs; 1 WETH = 2000 USDT in one and 2200 in the other
+    cheap = await chain.deploy('TestPair', [await weth.getAddress(), await usdt.getAddress()]);
+    dear = await chain.deploy('TestPair', [await weth.getAddress(), await usdt.getAddress()]);
+    for (const [pair, usdtReserve] of [[cheap, 2200n], [dear, 2000n]] as const) {
+      await (await weth.mint(await pair.getAddress(), 100n * E18)).wait();
+      await (await usdt.mint(await pair.getAddress(), 100n * usdtReserve * E18)).wait();
+      await (await pair.sync()).wait();
+    }
+    await (await weth.mint(await lender.getAddress(), 1000n * E18)).wait();
+    assert.equal(await executor.owner(), owner.address);
+  });
+
+  after(async () => {
+    await chain.stop();
+  });
+
+  async function route(minProfit: bigint = 0n): Promise<ExecutorRoute> {
+    const [wethAddress, usdtAddress] = [await weth.getAddress(), await usdt.getAddress()];
+    const feeData = ArbitrageExecutorContract.encodeV2Data(30n);
+    return {
+      asset: wethAddress,
+      amount: (1n * E18).toString(),
+      minProfit: minProfit.toString(),
+      steps: [
+        { dexType: 'UNISWAP_V2', pool: await cheap.getAddress(), tokenIn: wethAddress, tokenOut: usdtAddress, zeroForOne: true, minAmountOut: '0', data: feeData },
+        { dexType: 'UNISWAP_V2', pool: await dear.getAddress(), tokenIn: usdtAddress, tokenOut: wethAddress, zeroForOne: false, minAmountOut: '0', data: feeData }
+      ]
+    };
+  }
+
+  async function flashCall(executorRoute: ExecutorRoute): Promise<string> {
+    return ArbitrageExecutorContract.encodeInitiateFlash(
+      await lender.getAddress(),
+      lender.interface.encodeFunctionData('flashLoan', [
+        await executor.getAddress(),
+        [executorRoute.asset],
+        [executorRoute.amount],
+        ArbitrageExecutorContract.encodeRoute(executorRoute)
+      ])
+    );
+  }
+
+  it('decodes the routes it encodes', async () => {
+    const original = await route(123n);
+    assert.deepEqual(ArbitrageExecutorContract.decodeRoute(ArbitrageExecutorContract.encodeRoute(original)), original);
+  });
+
+  it('runs a route through a flash loan, paying and repaying a token that returns nothing', async () => {
+    const address = await executor.getAddress();
+    const tx = await chain.wallets[0].sendTransaction({ to: address, data: await flashCall(await route()) });
+    const receipt = (await tx.wait())!;
+    assert.equal(receipt.status, 1);
+
+    const events = ArbitrageExecutorContract.parseEvents(receipt.logs, address);
+    assert.deepEqual(events.map(event => event.name), ['SwapExecuted', 'SwapExecuted', 'ArbitrageExecuted']);
+
+    const [first, second, executed] = events;
+    assert.ok(first.name === 'SwapExecuted' && second.name === 'SwapExecuted' && executed.name === 'ArbitrageExecuted');
+    assert.equal(first.dexType, 'UNISWAP_V2');
+    assert.equal(first.amountIn, (1n * E18).toString());
+    assert.equal(second.amountIn, first.amountOut);
+    assert.equal(executed.amount, (1n * E18).toString());
+    assert.equal(BigInt(executed.profit), BigInt(second.amountOut) - 1n * E18);
+    assert.ok(BigInt(executed.profit) > 0n);
+    assert.equal(await weth.balanceOf(address), BigInt(executed.profit));
+  });
+
+  it('reports its custom errors in a form decodeError reads', async () => {
+    const address = await executor.getAddress();
+
+    const unprofitable = await chain.provider.call({ from: chain.wallets[0].address, to: address, data: await flashCall(await route(10n * E18)) })
+      .then(() => assert.fail('expected a revert'), revertData);
+    assert.match(ArbitrageExecutorContract.decodeError(unprofitable)!, /^InsufficientProfit\(\d+, 1000000000000000000, 10000000000000000000\)$/);
+
+    const stranger = await chain.provider.call({ from: chain.wallets[1].address, to: address, data: await flashCall(await route()) })
+      .then(() => assert.fail('expected a revert'), revertData);
+    assert.equal(ArbitrageExecutorContract.decodeError(stranger), 'NotOwner()');
+
+    assert.equal(ArbitrageExecutorContract.decodeError('0x08c379a0'), null);
+  });
+
+  it('withdraws profit in a token that returns nothing', async () => {
+    const [owner] = chain.wallets;
+    const address = await executor.getAddress();
+    await (await usdt.mint(address, 5n * E18)).wait();
+
+    const client = new ArbitrageExecutorContract(address, owner);
+    const receipt = (await (await client.withdraw(await usdt.getAddress(), 5n * E18, owner.address)).wait())!;
+    assert.deepEqual(ArbitrageExecutorContract.parseEvents(receipt.logs, address), [
+      { name: 'ProfitWithdrawn', token: await usdt.getAddress(), to: owner.address, amount: (5n * E18).toString() }
+    ]);
+    assert.equal(await usdt.balanceOf(owner.address), 5n * E18);
+  });
+});
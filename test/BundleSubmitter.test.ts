@@ -0,0 +1,144 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { ethers } from 'ethers';
+import { BOT_CONFIG } from '../src/config/constants';
+import { BundleRelay, BundleSimulation } from '../src/core/BundleRelay';
+import { BundleOutcome, BundleSubmitter } from '../src/core/BundleSubmitter';
+import { NonceManager } from '../src/core/NonceManager';
+import { MockBundleRelay } from '../src/relay/MockBundleRelay';
+import { LocalChain, startLocalChain } from './helpers/localChain';
+
+// A relay whose submission is slow enough for the chain to move past every target block
+class SlowRelay extends BundleRelay {
+  constructor(url: string, authSigner: ethers.Signer, private chain: LocalChain) {
+    super(url, authSigner);
+  }
+
+  async callBundle(signedTransactions: string[], blockNumber: number, stateBlock: number): Promise<BundleSimulation> {
+    const simulation = await super.callBundle(signedTransactions, blockNumber, stateBlock);
+    await this.chain.mine(BOT_CONFIG.PRIVATE_BUNDLES.TARGET_BLOCKS);
+    return simulation;
+  }
+}
+
+describe('BundleSubmitter through MockBundleRelay', () => {
+  let chain: LocalChain;
+  let relay: MockBundleRelay;
+  let relayUrl: string;
+  let trader: ethers.Wallet;
+  let token: ethers.Contract;
+
+  before(async () => {
+    BOT_CONFIG.PRIVATE_BUNDLES.TARGET_BLOCKS = 3;
+    BOT_CONFIG.TRANSACTIONS.CONFIRMATIONS = 2;
+
+    chain = await startLocalChain();
+    trader = chain.wallets[1];
+    token = await chain.deploy('TestToken');
+    await (await token.mint(trader.address, 100n)).wait();
+
+    relay = new MockBundleRelay(chain.provider);
+    const port = 40000 + Math.floor(Math.random() * 20000);
+    await relay.start(port);
+    relayUrl = `http://127.0.0.1:${port}`;
+  });
+
+  after(async () => {
+    await relay.stop();
+    await chain.stop();
+  });
+
+  function submitter(bundleRelay: BundleRelay = new BundleRelay(relayUrl, ethers.Wallet.createRandom())): BundleSubmitter {
+    return new BundleSubmitter(trader, NonceManager.forWallet(chain.provider, trader.address), bundleRelay);
+  }
+
+  // Keeps blocks coming until the submissions settle, built by the relay so due bundles land in them
+  async function mineUntil<T>(outcomes: Promise<T>): Promise<T> {
+    let settled = false;
+    const mining = (async () => {
+      while (!settled) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        if (!settled) await relay.mine();
+      }
+    })();
+    try {
+      return await outcomes;
+    } finally {
+      settled = true;
+      await mining;
+    }
+  }
+
+  async function transfer(amount: bigint): Promise<ethers.TransactionRequest> {
+    return { to: await token.getAddress(), data: token.interface.encodeFunctionData('transfer', [chain.wallets[2].address, amount]), gasLimit: 100_000n };
+  }
+
+  it('rejects a bundle whose simulation reverts', async () => {
+    const nonce = await chain.provider.getTransactionCount(trader.address);
+    const { bundle, receipt } = await submitter().submit(await transfer(1_000n), 'overdraw');
+
+    assert.equal(bundle.state, 'rejected');
+    assert.equal(receipt, null);
+    assert.equal(bundle.nonce, nonce);
+    assert.ok(bundle.error && bundle.error.startsWith('0x4e487b71'), `expected a Panic, got ${bundle.error}`); // Arithmetic underflow
+  });
+
+  // The rejected bundle's nonce went back to the manager, so these land on it and the one after
+  it('includes and confirms concurrent bundles from one wallet', async () => {
+    const nonce = await chain.provider.getTransactionCount(trader.address);
+    const bundles = submitter();
+    const states: string[] = [];
+    bundles.on('bundle:state', (bundle, previous) => states.push(`${bundle.nonce}:${previous ?? '-'}>${bundle.state}`));
+
+    const outcomes: BundleOutcome[] = await mineUntil(Promise.all([
+      bundles.submit(await transfer(1n), 'first'),
+      bundles.submit(await transfer(2n), 'second')
+    ]));
+
+    assert.deepEqual(outcomes.map(outcome => outcome.bundle.state), ['confirmed', 'confirmed']);
+    assert.deepEqual(outcomes.map(outcome => outcome.bundle.nonce), [nonce, nonce + 1]);
+    assert.deepEqual(outcomes.map(outcome => outcome.receipt?.status), [1, 1]);
+    assert.equal(await token.balanceOf(chain.wallets[2].address), 3n);
+    for (const n of [nonce, nonce + 1]) {
+      assert.deepEqual(states.filter(state => state.startsWith(`${n}:`)), [`${n}:->submitted`, `${n}:submitted>included`, `${n}:included>confirmed`]);
+    }
+  });
+
+  it('expires a bundle whose target blocks pass without it', async () => {
+    const nonce = await chain.provider.getTransactionCount(trader.address);
+    const slow = submitter(new SlowRelay(relayUrl, ethers.Wallet.createRandom(), chain));
+    const { bundle, receipt } = await mineUntil(slow.submit(await transfer(1n), 'late'));
+
+    assert.equal(bundle.state, 'expired');
+    assert.equal(receipt, null);
+    assert.equal(await chain.provider.getTransactionCount(trader.address), nonce);
+
+    // The nonce went back to the manager, so the next bundle lands on it
+    const next = await mineUntil(submitter().submit(await transfer(1n), 'retry'));
+    assert.equal(next.bundle.state, 'confirmed');
+    assert.equal(next.bundle.nonce, nonce);
+  });
+
+  it('refuses requests whose X-Flashbots-Signature does not match the body', async () => {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_callBundle', params: [{ txs: [], blockNumber: '0x1' }] });
+    const post = (signature?: string) => axios.post(relayUrl, body, {
+      headers: { 'Content-Type': 'application/json', ...(signature ? { 'X-Flashbots-Signature': signature } : {}) },
+      validateStatus: () => true
+    });
+
+    const searcher = ethers.Wallet.createRandom();
+    const otherBody = await BundleRelay.signBody(body.replace('"id":1', '"id":2'), searcher);
+    const wrongAddress = `${chain.wallets[0].address}:${(await BundleRelay.signBody(body, searcher)).split(':')[1]}`;
+
+    for (const signature of [undefined, otherBody, wrongAddress, 'garbage']) {
+      const response = await post(signature);
+      assert.equal(response.status, 403);
+      assert.match(response.data.error.message, /X-Flashbots-Signature/);
+    }
+
+    const signed = await post(await BundleRelay.signBody(body, searcher));
+    assert.equal(signed.status, 400); // Past the signature check, the empty bundle is what fails
+    assert.match(signed.data.error.message, /txs must be a non-empty array/);
+  });
+});
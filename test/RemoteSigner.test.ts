@@ -0,0 +1,94 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { RemoteSigner } from '../src/signers/RemoteSigner';
+import { LocalSignerServer } from '../src/signers/LocalSignerServer';
+import { TradingSigner } from '../src/signers/SignerProvider';
+
+const AUTH_TOKEN = 'test-token';
+
+// Signs something other than what it was asked to, as a compromised or buggy signer would
+class TamperingWallet extends ethers.Wallet {
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return await super.signTransaction({ ...tx, value: 1n });
+  }
+}
+
+async function startServer(signer: TradingSigner): Promise<{ server: LocalSignerServer; url: string }> {
+  const server = new LocalSignerServer(signer, AUTH_TOKEN);
+  const port = 40000 + Math.floor(Math.random() * 20000);
+  await server.start(port);
+  return { server, url: `http://127.0.0.1:${port}` };
+}
+
+describe('RemoteSigner through LocalSignerServer', () => {
+  const wallet = ethers.Wallet.createRandom();
+  const tampering = new TamperingWallet(ethers.Wallet.createRandom().privateKey);
+  let honest: { server: LocalSignerServer; url: string };
+  let dishonest: { server: LocalSignerServer; url: string };
+
+  const request: ethers.TransactionRequest = {
+    to: '0x00000000000000000000000000000000000000aa',
+    nonce: 7,
+    gasLimit: 21_000n,
+    maxFeePerGas: ethers.parseUnits('30', 'gwei'),
+    maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei'),
+    value: 0n,
+    data: '0x1234',
+    chainId: 1n,
+    type: 2
+  };
+
+  before(async () => {
+    honest = await startServer(wallet);
+    dishonest = await startServer(tampering);
+  });
+
+  after(async () => {
+    await honest.server.stop();
+    await dishonest.server.stop();
+  });
+
+  it('signs transactions, messages and typed data as the served account', async () => {
+    const signer = await RemoteSigner.fromUrl(honest.url, { authToken: AUTH_TOKEN });
+    assert.equal(signer.address, wallet.address);
+
+    const signed = ethers.Transaction.from(await signer.signTransaction(request));
+    assert.equal(signed.from, wallet.address);
+    assert.equal(signed.to, ethers.getAddress(request.to as string));
+    assert.equal(signed.nonce, 7);
+    assert.equal(signed.data, '0x1234');
+    assert.equal(signed.maxFeePerGas, request.maxFeePerGas);
+
+    assert.equal(await signer.signMessage('hello'), await wallet.signMessage('hello'));
+
+    const domain = { name: 'Test', version: '1', chainId: 1 };
+    const types = { Mail: [{ name: 'contents', type: 'string' }] };
+    assert.equal(await signer.signTypedData(domain, types, { contents: 'hi' }), await wallet.signTypedData(domain, types, { contents: 'hi' }));
+  });
+
+  it('rejects a signed transaction that differs from the request', async () => {
+    const signer = await RemoteSigner.fromUrl(dishonest.url, { authToken: AUTH_TOKEN });
+    await assert.rejects(signer.signTransaction(request), /other than the one requested/);
+  });
+
+  it('rejects accounts the server does not hold', async () => {
+    await assert.rejects(RemoteSigner.fromUrl(honest.url, { authToken: AUTH_TOKEN, address: tampering.address }), /doesn't hold/);
+
+    const stranger = new RemoteSigner(honest.url, tampering.address, { authToken: AUTH_TOKEN });
+    await assert.rejects(stranger.signMessage('hello'), /Unknown account/);
+  });
+
+  it('refuses requests without the auth token', async () => {
+    await assert.rejects(RemoteSigner.fromUrl(honest.url), /Unauthorized/);
+    await assert.rejects(RemoteSigner.fromUrl(honest.url, { authToken: 'test-tokem' }), /Unauthorized/);
+    await assert.rejects(RemoteSigner.fromUrl(honest.url, { authToken: `${AUTH_TOKEN}-longer` }), /Unauthorized/);
+
+    const signer = new RemoteSigner(honest.url, wallet.address, { authToken: 'wrong' });
+    await assert.rejects(signer.signTransaction(request), /Unauthorized/);
+  });
+
+  it('will not start without an auth token', () => {
+    assert.throws(() => new LocalSignerServer(wallet, ''), /SIGNER_AUTH_TOKEN/);
+  });
+});
@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface ITestToken {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 amount) external;
+}
+
+interface IFlashLoanRecipient {
+    function receiveFlashLoan(address[] calldata tokens, uint256[] calldata amounts, uint256[] calldata feeAmounts, bytes calldata userData) external;
+}
+
+// Uniswap V2 pair with the 0.3% fee k check, reserves synced after every swap
+contract TestPair {
+    address public immutable token0;
+    address public immutable token1;
+    uint112 private reserve0;
+    uint112 private reserve1;
+
+    constructor(address _token0, address _token1) {
+        token0 = _token0;
+        token1 = _token1;
+    }
+
+    function sync() external {
+        reserve0 = uint112(ITestToken(token0).balanceOf(address(this)));
+        reserve1 = uint112(ITestToken(token1).balanceOf(address(this)));
+    }
+
+    function getReserves() external view returns (uint112, uint112, uint32) {
+        return (reserve0, reserve1, 0);
+    }
+
+    function swap(uint256 amount0Out, uint256 amount1Out, address to, bytes calldata) external {
+        if (amount0Out > 0) ITestToken(token0).transfer(to, amount0Out);
+        if (amount1Out > 0) ITestToken(token1).transfer(to, amount1Out);
+
+        uint256 balance0 = ITestToken(token0).balanceOf(address(this));
+        uint256 balance1 = ITestToken(token1).balanceOf(address(this));
+        uint256 amount0In = balance0 > reserve0 - amount0Out ? balance0 - (reserve0 - amount0Out) : 0;
+        uint256 amount1In = balance1 > reserve1 - amount1Out ? balance1 - (reserve1 - amount1Out) : 0;
+        require(
+            (balance0 * 1000 - amount0In * 3) * (balance1 * 1000 - amount1In * 3) >= uint256(reserve0) * reserve1 * 1_000_000,
+            "K"
+        );
+        reserve0 = uint112(balance0);
+        reserve1 = uint112(balance1);
+    }
+}
+
+// Balancer Vault-style lender: sends the tokens, calls back, checks they came back with the fee
+contract TestLender {
+    uint256 public immutable feeBps;
+
+    constructor(uint256 _feeBps) {
+        feeBps = _feeBps;
+    }
+
+    function flashLoan(address recipient, address[] calldata tokens, uint256[] calldata amounts, bytes calldata userData) external {
+        uint256 before = ITestToken(tokens[0]).balanceOf(address(this));
+        uint256[] memory fees = new uint256[](1);
+        fees[0] = (amounts[0] * feeBps) / 10_000;
+
+        ITestToken(tokens[0]).transfer(recipient, amounts[0]);
+        IFlashLoanRecipient(recipient).receiveFlashLoan(tokens, amounts, fees, userData);
+        require(ITestToken(tokens[0]).balanceOf(address(this)) >= before + fees[0], "not repaid");
+    }
+}
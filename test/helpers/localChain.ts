@@ -0,0 +1,57 @@
+import path from 'path';
+import ganache from 'ganache';
+import { ethers } from 'ethers';
+import { compileContracts, CompiledContract } from '../../scripts/compileContracts';
+
+// An in-process ganache chain served over HTTP, with funded wallets and the compiled contracts
+export interface LocalChain {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  wallets: ethers.Wallet[];
+  deploy(name: string, args?: unknown[], from?: ethers.Wallet): Promise<ethers.Contract>;
+  mine(blocks?: number): Promise<void>;
+  stop(): Promise<void>;
+}
+
+let compiled: Record<string, CompiledContract> | null = null;
+
+export function getCompiled(): Record<string, CompiledContract> {
+  if (!compiled) compiled = compileContracts([path.join(__dirname, '..', '..', 'contracts'), path.join(__dirname, '..', 'contracts')]);
+  return compiled;
+}
+
+// Every transaction is mined in a block of its own as it arrives, mine() adds empty blocks
+export async function startLocalChain(): Promise<LocalChain> {
+  const server = ganache.server({
+    chain: { chainId: 1337, hardfork: 'shanghai' },
+    wallet: { deterministic: true, totalAccounts: 4 },
+    logging: { quiet: true }
+  });
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  await server.listen(port);
+
+  const url = `http://127.0.0.1:${port}`;
+  const provider = new ethers.JsonRpcProvider(url, 1337, { staticNetwork: true, cacheTimeout: -1 });
+  provider.pollingInterval = 50;
+  const accounts = await server.provider.getInitialAccounts();
+  const wallets = Object.values(accounts).map(account => new ethers.Wallet(account.secretKey, provider));
+
+  return {
+    url,
+    provider,
+    wallets,
+    async deploy(name, args = [], from = wallets[0]) {
+      const { abi, bytecode } = getCompiled()[name];
+      const contract = await new ethers.ContractFactory(abi, bytecode, from).deploy(...args);
+      await contract.waitForDeployment();
+      return contract as ethers.Contract;
+    },
+    async mine(blocks = 1) {
+      for (let i = 0; i < blocks; i++) await provider.send('evm_mine', []);
+    },
+    async stop() {
+      provider.destroy();
+      await server.close();
+    }
+  };
+}